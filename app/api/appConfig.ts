@@ -0,0 +1,37 @@
+// App config file shared with the CLI (~/.openclaw-liveavatar/config.json)
+// Server-side only - the CLI keeps the API key here, the web app adds its settings
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+const CONFIG_DIR = join(homedir(), ".openclaw-liveavatar");
+const CONFIG_FILE = join(CONFIG_DIR, "config.json");
+
+export type AppConfig = Record<string, unknown>;
+
+export function loadAppConfig(): AppConfig {
+  try {
+    if (existsSync(CONFIG_FILE)) {
+      const parsed = JSON.parse(readFileSync(CONFIG_FILE, "utf8"));
+      return parsed && typeof parsed === "object" ? parsed : {};
+    }
+  } catch (err) {
+    console.error("[Config] Failed to read config file:", err);
+  }
+  return {};
+}
+
+/**
+ * Merge the given settings into the config file, keeping everything else
+ * (e.g. the CLI's saved API key)
+ */
+export function saveAppConfig(changes: AppConfig) {
+  if (!existsSync(CONFIG_DIR)) {
+    mkdirSync(CONFIG_DIR, { recursive: true });
+  }
+  writeFileSync(
+    CONFIG_FILE,
+    JSON.stringify({ ...loadAppConfig(), ...changes }, null, 2)
+  );
+}
@@ -0,0 +1,69 @@
+import { loadAppConfig, saveAppConfig } from "../appConfig";
+
+interface StoredIdleSettings {
+  enabled: boolean;
+  keepAliveIntervalMs: number;
+  warnAfterMs: number;
+  endAfterWarningMs: number;
+}
+
+const DURATION_FIELDS = ["keepAliveIntervalMs", "warnAfterMs", "endAfterWarningMs"] as const;
+
+// Anything shorter makes the session end before anyone could answer
+const MIN_DURATION_MS = 5000;
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Keep only well-formed settings
+const sanitizeSettings = (value: unknown): StoredIdleSettings | null => {
+  if (!value || typeof value !== "object") return null;
+  const settings = value as Record<string, unknown>;
+  if (typeof settings.enabled !== "boolean") return null;
+  for (const field of DURATION_FIELDS) {
+    const duration = settings[field];
+    if (typeof duration !== "number" || !Number.isFinite(duration) || duration < MIN_DURATION_MS) {
+      return null;
+    }
+  }
+  return {
+    enabled: settings.enabled,
+    keepAliveIntervalMs: settings.keepAliveIntervalMs as number,
+    warnAfterMs: settings.warnAfterMs as number,
+    endAfterWarningMs: settings.endAfterWarningMs as number,
+  };
+};
+
+// Nothing saved yet - the client falls back to its defaults
+export async function GET() {
+  return jsonResponse({ settings: sanitizeSettings(loadAppConfig().idle) || {} });
+}
+
+export async function PUT(request: Request) {
+  let settings: StoredIdleSettings | null = null;
+  try {
+    const body = await request.json();
+    settings = sanitizeSettings(body.settings);
+  } catch {
+    // Invalid JSON, handled below
+  }
+
+  if (!settings) {
+    return jsonResponse(
+      { error: `Expected { settings: IdleSettings } with durations of at least ${MIN_DURATION_MS / 1000}s` },
+      400
+    );
+  }
+
+  try {
+    saveAppConfig({ idle: settings });
+    console.log("[Idle] Saved idle settings");
+    return jsonResponse({ settings });
+  } catch (error) {
+    console.error("Error saving idle settings:", error);
+    return jsonResponse({ error: "Failed to save idle settings" }, 500);
+  }
+}
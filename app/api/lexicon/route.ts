@@ -0,0 +1,64 @@
+import { loadAppConfig, saveAppConfig } from "../appConfig";
+
+interface StoredLexiconEntry {
+  id: string;
+  match: string;
+  spoken: string;
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+const jsonResponse = (body: unknown, status: number = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Keep only well-formed entries
+const sanitizeEntries = (value: unknown): StoredLexiconEntry[] | null => {
+  if (!Array.isArray(value)) return null;
+  const entries: StoredLexiconEntry[] = [];
+  for (const item of value) {
+    if (!item || typeof item !== "object") return null;
+    const { id, match, spoken, regex, caseSensitive } = item as Record<string, unknown>;
+    if (typeof id !== "string" || typeof match !== "string" || typeof spoken !== "string") {
+      return null;
+    }
+    entries.push({
+      id,
+      match,
+      spoken,
+      regex: regex === true,
+      caseSensitive: caseSensitive === true,
+    });
+  }
+  return entries;
+};
+
+export async function GET() {
+  const entries = sanitizeEntries(loadAppConfig().lexicon) || [];
+  return jsonResponse({ entries });
+}
+
+export async function PUT(request: Request) {
+  let entries: StoredLexiconEntry[] | null = null;
+  try {
+    const body = await request.json();
+    entries = sanitizeEntries(body.entries);
+  } catch {
+    // Invalid JSON, handled below
+  }
+
+  if (!entries) {
+    return jsonResponse({ error: "Expected { entries: LexiconEntry[] }" }, 400);
+  }
+
+  try {
+    saveAppConfig({ lexicon: entries });
+    console.log(`[Lexicon] Saved ${entries.length} entries`);
+    return jsonResponse({ entries });
+  } catch (error) {
+    console.error("Error saving lexicon:", error);
+    return jsonResponse({ error: "Failed to save lexicon" }, 500);
+  }
+}
@@ -97,7 +97,7 @@ async function getApiKey() {
   }
 
   // Save for future use
-  saveConfig({ apiKey });
+  saveConfig({ ...loadConfig(), apiKey });
   console.log('');
   console.log('  \x1b[32m✓ API key saved!\x1b[0m \x1b[90m(stored in ~/.openclaw-liveavatar/config.json)\x1b[0m');
 
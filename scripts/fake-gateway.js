@@ -0,0 +1,334 @@
+#!/usr/bin/env node
+
+// Local stand-in for the OpenClaw Gateway, for developing and testing the
+// client without a real gateway on port 18789.
+//
+// Speaks protocol v3 (connect / agent / agent.wait / chat.abort / chat.history /
+// agents.list / sessions.list / status) and streams agent events from a
+// scenario file, which can also inject errors, delays, duplicate or skipped
+// seqs and disconnects.
+//
+// Usage:
+//   node scripts/fake-gateway.js [--port 18789] [--token secret] [--scenario file.json]
+//
+// Scenario file (all fields optional):
+//   {
+//     "sessionKey": "agent:main:main",
+//     "agents": [{ "id": "main", "name": "Main" }],
+//     "sessions": [{ "key": "agent:main:main", "displayName": "Main" }],
+//     "history": [{ "role": "user", "content": "Hi" }],
+//     "methods": {
+//       "chat.history": { "delayMs": 500, "error": { "code": "UNAVAILABLE", "message": "..." } }
+//     },
+//     "replies": [
+//       {
+//         "match": "weather",
+//         "acceptDelayMs": 200,
+//         "steps": [
+//           { "stream": "tool", "data": { "phase": "start", "name": "web_search", "toolCallId": "t1" } },
+//           { "delayMs": 1000 },
+//           { "stream": "assistant", "data": { "delta": "[TTS]It's sunny.[/TTS]" } },
+//           { "duplicate": true },
+//           { "skipSeq": 2 },
+//           { "disconnect": true },
+//           { "stream": "lifecycle", "data": { "phase": "end" }, "omit": ["seq", "ts"] }
+//         ]
+//       }
+//     ]
+//   }
+//
+// Replies are matched against the user's message in order (regex, case
+// insensitive). Without a match the gateway streams back an echo of the message.
+// "omit" leaves fields out of an event's payload, like gateways that don't send them.
+
+import { WebSocketServer } from 'ws';
+import { readFileSync } from 'fs';
+import { fileURLToPath } from 'url';
+
+const PROTOCOL_VERSION = 3;
+const DEFAULT_PORT = 18789;
+const DEFAULT_SESSION_KEY = 'agent:main:main';
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function echoSteps(message) {
+  const text = `[TTS]You said: ${message}[/TTS]\nThis reply comes from the fake gateway. Add a reply to the scenario file to script a different response.`;
+  const words = text.split(/(?<= )/);
+  return [
+    ...words.map((delta) => ({ stream: 'assistant', data: { delta }, delayMs: 30 })),
+    { stream: 'lifecycle', data: { phase: 'end' } },
+  ];
+}
+
+/**
+ * Start a fake gateway. Resolves once it is listening.
+ *
+ * Returns { port, close(), disconnectAll(), runs } - runs maps runId to
+ * { status, text } so tests can check what the client received.
+ */
+export function startFakeGateway(options = {}) {
+  const scenario = options.scenario || {};
+  const sessionKey = scenario.sessionKey || DEFAULT_SESSION_KEY;
+  const defaultAgentId = sessionKey.split(':')[1] || 'main';
+  const log = options.quiet ? () => {} : (...args) => console.log('[FakeGateway]', ...args);
+
+  const history = (scenario.history || []).map((entry) => ({ ...entry }));
+  const runs = new Map();
+  // Open sockets with their per-connection event seq
+  const clients = new Map();
+  let stateVersion = 1;
+  let runCounter = 0;
+
+  const wss = new WebSocketServer({ port: options.port ?? DEFAULT_PORT });
+
+  function findReply(message) {
+    return (scenario.replies || []).find((reply) => {
+      if (!reply.match) return true;
+      return new RegExp(reply.match, 'i').test(message);
+    });
+  }
+
+  // Events go to every connected client, like the real gateway
+  function broadcast(event, payload) {
+    clients.forEach((client, ws) => {
+      if (!client.connected || ws.readyState !== ws.OPEN) return;
+      client.eventSeq += 1;
+      ws.send(JSON.stringify({ type: 'event', event, payload, seq: client.eventSeq, stateVersion }));
+    });
+  }
+
+  async function streamRun(run, steps) {
+    for (const step of steps) {
+      if (run.status !== 'running') return;
+      if (step.delayMs) await sleep(step.delayMs);
+      if (run.status !== 'running') return;
+
+      if (step.disconnect) {
+        log('Dropping connections mid-run', run.runId);
+        clients.forEach((client, ws) => ws.terminate());
+        continue;
+      }
+      if (step.skipSeq) {
+        // Events that "got lost" on the way
+        run.seq += step.skipSeq;
+        clients.forEach((client) => {
+          client.eventSeq += step.skipSeq;
+        });
+        continue;
+      }
+      if (step.duplicate) {
+        if (run.lastEvent) broadcast('agent', run.lastEvent);
+        continue;
+      }
+      if (!step.stream) continue;
+
+      run.seq += 1;
+      const payload = {
+        runId: run.runId,
+        seq: run.seq,
+        stream: step.stream,
+        ts: Date.now(),
+        sessionKey: run.sessionKey,
+        data: step.data || {},
+      };
+
+      if (step.stream === 'assistant' && typeof payload.data.delta === 'string') {
+        run.text += payload.data.delta;
+        payload.data = { ...payload.data, text: run.text };
+      }
+      if (step.stream === 'lifecycle' && (payload.data.phase === 'end' || payload.data.phase === 'error')) {
+        run.status = payload.data.phase === 'end' ? 'ok' : 'error';
+        stateVersion += 1;
+        history.push({ role: 'assistant', content: run.text, timestamp: Date.now() });
+      }
+      (step.omit || []).forEach((field) => delete payload[field]);
+      run.lastEvent = payload;
+      broadcast('agent', payload);
+    }
+  }
+
+  function handleConnection(ws) {
+    const client = { connected: false, eventSeq: 0 };
+    clients.set(ws, client);
+
+    const send = (frame) => {
+      if (ws.readyState === ws.OPEN) ws.send(JSON.stringify(frame));
+    };
+    const respond = (id, payload) => send({ type: 'res', id, ok: true, payload });
+    const fail = (id, error) => send({ type: 'res', id, ok: false, error });
+
+    const methods = {
+      connect: (params) => {
+        if (params.minProtocol > PROTOCOL_VERSION || params.maxProtocol < PROTOCOL_VERSION) {
+          throw { code: 'PROTOCOL_MISMATCH', message: `Gateway speaks protocol ${PROTOCOL_VERSION}` };
+        }
+        if (options.token && params.auth?.token !== options.token) {
+          throw { code: 'UNAUTHORIZED', message: 'Invalid gateway token' };
+        }
+        client.connected = true;
+        return {
+          type: 'hello-ok',
+          protocol: PROTOCOL_VERSION,
+          policy: {},
+          snapshot: {
+            stateVersion,
+            sessionDefaults: { mainSessionKey: sessionKey, defaultAgentId },
+          },
+        };
+      },
+
+      agent: (params) => {
+        // Same idempotency key - the turn was already accepted
+        const existing = [...runs.values()].find(
+          (other) => params.idempotencyKey && other.idempotencyKey === params.idempotencyKey
+        );
+        if (existing) {
+          log('Duplicate delivery of', params.idempotencyKey);
+          return { runId: existing.runId, status: 'accepted' };
+        }
+
+        runCounter += 1;
+        const run = {
+          runId: `fake-run-${runCounter}`,
+          idempotencyKey: params.idempotencyKey,
+          sessionKey: params.sessionKey || sessionKey,
+          status: 'running',
+          seq: 0,
+          text: '',
+          lastEvent: null,
+        };
+        runs.set(run.runId, run);
+        history.push({ role: 'user', content: params.message, timestamp: Date.now() });
+
+        const reply = findReply(params.message);
+        log('Run', run.runId, 'for:', params.message);
+        // Let the response go out before the first event
+        setTimeout(() => {
+          streamRun(run, reply ? reply.steps || [] : echoSteps(params.message)).catch((err) =>
+            log('Run failed:', err)
+          );
+        }, 0);
+        return { runId: run.runId, status: 'accepted' };
+      },
+
+      'agent.wait': (params) => {
+        const run = runs.get(params.runId);
+        if (!run) throw { code: 'NOT_FOUND', message: `Unknown run ${params.runId}` };
+        return { status: run.status === 'running' ? 'timeout' : run.status === 'ok' ? 'ok' : 'error' };
+      },
+
+      'chat.abort': (params) => {
+        const run = runs.get(params.runId);
+        if (run && run.status === 'running') {
+          run.status = 'aborted';
+          log('Aborted', run.runId);
+        }
+        return { aborted: Boolean(run) };
+      },
+
+      'chat.history': (params) => ({
+        sessionKey: params.sessionKey,
+        messages: history.slice(-(params.limit || 50)),
+      }),
+
+      'agents.list': () => ({
+        defaultId: defaultAgentId,
+        agents: scenario.agents || [{ id: defaultAgentId, name: 'Main' }],
+      }),
+
+      'sessions.list': () => ({
+        sessions: scenario.sessions || [{ key: sessionKey, displayName: 'Main', updatedAt: Date.now() }],
+      }),
+
+      status: () => ({ ok: true, fake: true, clients: clients.size, runs: runs.size }),
+    };
+
+    ws.on('message', async (data) => {
+      let frame;
+      try {
+        frame = JSON.parse(data.toString());
+      } catch {
+        log('Ignoring invalid JSON');
+        return;
+      }
+      if (frame.type !== 'req') return;
+
+      const { id, method, params = {} } = frame;
+      const override = (scenario.methods || {})[method] || {};
+      const reply = method === 'agent' ? findReply(params.message || '') : null;
+      const delay = override.delayMs || reply?.acceptDelayMs || 0;
+      if (delay) await sleep(delay);
+
+      if (method !== 'connect' && !client.connected) {
+        fail(id, { code: 'NOT_CONNECTED', message: 'Send connect first' });
+        return;
+      }
+      if (override.error || reply?.error) {
+        fail(id, override.error || reply.error);
+        return;
+      }
+      if (override.payload !== undefined) {
+        respond(id, override.payload);
+        return;
+      }
+
+      const handler = methods[method];
+      if (!handler) {
+        fail(id, { code: 'UNKNOWN_METHOD', message: `Unknown method ${method}` });
+        return;
+      }
+      try {
+        respond(id, handler(params));
+      } catch (err) {
+        fail(id, err && err.code ? err : { code: 'INTERNAL', message: String(err) });
+      }
+    });
+
+    ws.on('close', () => clients.delete(ws));
+  }
+
+  wss.on('connection', handleConnection);
+
+  return new Promise((resolve, reject) => {
+    wss.once('error', reject);
+    wss.once('listening', () => {
+      const port = wss.address().port;
+      log(`Listening on ws://127.0.0.1:${port}`);
+      resolve({
+        port,
+        runs,
+        history,
+        disconnectAll: () => clients.forEach((client, ws) => ws.terminate()),
+        close: () =>
+          new Promise((done) => {
+            clients.forEach((client, ws) => ws.terminate());
+            wss.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    const name = argv[i].replace(/^--/, '');
+    args[name] = argv[i + 1];
+    i++;
+  }
+  return args;
+}
+
+// Run directly from the command line
+if (process.argv[1] === fileURLToPath(import.meta.url)) {
+  const args = parseArgs(process.argv.slice(2));
+  const scenario = args.scenario ? JSON.parse(readFileSync(args.scenario, 'utf8')) : {};
+  startFakeGateway({
+    port: args.port ? Number(args.port) : DEFAULT_PORT,
+    token: args.token || process.env.OPENCLAW_GATEWAY_TOKEN || '',
+    scenario,
+  }).catch((err) => {
+    console.error('[FakeGateway] Failed to start:', err.message);
+    process.exit(1);
+  });
+}
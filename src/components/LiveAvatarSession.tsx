@@ -7,10 +7,50 @@ import {
   useVoiceChat,
   useLiveAvatarContext,
 } from "../liveavatar";
-import { SessionState } from "@heygen/liveavatar-web-sdk";
-import { useAvatarActions } from "../liveavatar/useAvatarActions";
-import { MessageSender } from "../liveavatar/types";
-import { GatewayConnectionState } from "../gateway/types";
+import { ConnectionQuality, SessionState } from "@heygen/liveavatar-web-sdk";
+import {
+  AgentActivityEntry,
+  LiveAvatarSessionFactory,
+  LiveAvatarSessionMessage,
+  MessageSender,
+} from "../liveavatar/types";
+import {
+  AgentSummary,
+  GatewayConnectionState,
+  GatewaySessionSelection,
+  SessionSummary,
+} from "../gateway/types";
+import { getGatewayClient } from "../gateway/client";
+import { ResponseFormat } from "../gateway/responseFormat";
+import { SpeechPolicy } from "../gateway/speechStream";
+import {
+  LexiconEntry,
+  createLexiconEntry,
+  validateLexiconEntry,
+} from "../liveavatar/lexicon";
+import { isInProgress } from "../liveavatar/messages";
+import { LATENCY_STAGES } from "../liveavatar/latency";
+import { DegradationConfig } from "../liveavatar/degradation";
+import { IdleSettings } from "../liveavatar/idle";
+import {
+  createTextModeSession,
+  isSpeechSynthesisAvailable,
+} from "../liveavatar/textSession";
+import {
+  DEFAULT_MEDIA_STATS_OPTIONS,
+  MediaStatsSample,
+} from "../liveavatar/mediaStats";
+import {
+  EXPORT_FORMAT_LABELS,
+  ExportFormat,
+} from "../liveavatar/transcriptExport";
+
+const SPEECH_POLICY_LABELS: Record<SpeechPolicy, string> = {
+  summary: "Summary",
+  full: "Full reply",
+  "first-paragraph": "First paragraph",
+  silent: "Nothing (text only)",
+};
 
 interface Avatar {
   id: string;
@@ -360,7 +400,9 @@ const GatewayStatus: React.FC<{
   state: GatewayConnectionState;
   isProcessing: boolean;
   isDemoMode: boolean;
-}> = ({ state, isProcessing, isDemoMode }) => {
+  reconnectAttempt: number;
+  onRetry: () => void;
+}> = ({ state, isProcessing, isDemoMode, reconnectAttempt, onRetry }) => {
   const getStatusColor = () => {
     if (isProcessing) return "bg-yellow-500";
     if (isDemoMode) return "bg-blue-500";
@@ -368,6 +410,7 @@ const GatewayStatus: React.FC<{
       case "connected":
         return "bg-green-500";
       case "connecting":
+      case "reconnecting":
         return "bg-yellow-500";
       case "error":
         return "bg-red-500";
@@ -384,6 +427,8 @@ const GatewayStatus: React.FC<{
         return "OpenClaw Connected";
       case "connecting":
         return "Connecting...";
+      case "reconnecting":
+        return `Reconnecting (attempt ${reconnectAttempt})...`;
       case "error":
         return "Connection Error";
       default:
@@ -391,28 +436,836 @@ const GatewayStatus: React.FC<{
     }
   };
 
+  const canRetry = !isDemoMode && (state === "disconnected" || state === "error");
+
   return (
     <div className="flex items-center gap-2 px-3 py-1.5 bg-black/30 rounded-full">
       <span
-        className={`w-2 h-2 rounded-full ${getStatusColor()} ${isProcessing ? "animate-pulse" : ""}`}
+        className={`w-2 h-2 rounded-full ${getStatusColor()} ${isProcessing || state === "reconnecting" ? "animate-pulse" : ""}`}
       />
       <span className="text-xs text-white/80">{getStatusText()}</span>
+      {canRetry && (
+        <button
+          onClick={onRetry}
+          className="text-xs text-orange-400 hover:text-orange-300 underline"
+        >
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Agent and session picker for the chat header, hidden if the gateway can't list agents
+const SessionPicker: React.FC<{
+  session: GatewaySessionSelection;
+  onSelect: (selection: GatewaySessionSelection) => void;
+  disabled: boolean;
+}> = ({ session, onSelect, disabled }) => {
+  const [agents, setAgents] = useState<AgentSummary[]>([]);
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+
+  useEffect(() => {
+    getGatewayClient()
+      .listAgents()
+      .then(setAgents)
+      .catch((err) => {
+        console.log("[OpenClaw] Could not list agents:", err.message);
+        setAgents([]);
+      });
+  }, []);
+
+  useEffect(() => {
+    getGatewayClient()
+      .listSessions(session.agentId ?? undefined)
+      .then(setSessions)
+      .catch((err) => {
+        console.log("[OpenClaw] Could not list sessions:", err.message);
+        setSessions([]);
+      });
+  }, [session.agentId]);
+
+  if (agents.length === 0) return null;
+
+  // The current session may be older than the listing
+  const sessionOptions =
+    session.sessionKey && !sessions.some((s) => s.key === session.sessionKey)
+      ? [{ key: session.sessionKey } as SessionSummary, ...sessions]
+      : sessions;
+
+  const selectClassName =
+    "max-w-[120px] bg-black/30 text-xs text-white/80 rounded px-1.5 py-1 border border-white/10 disabled:opacity-50";
+
+  return (
+    <div className="flex items-center gap-1.5 min-w-0">
+      <select
+        className={selectClassName}
+        value={session.agentId ?? ""}
+        disabled={disabled}
+        onChange={(e) => onSelect({ agentId: e.target.value, sessionKey: null })}
+        title="Agent"
+      >
+        {!session.agentId && <option value="">Default agent</option>}
+        {agents.map((agent) => (
+          <option key={agent.id} value={agent.id}>
+            {agent.name || agent.id}
+          </option>
+        ))}
+      </select>
+      <select
+        className={selectClassName}
+        value={session.sessionKey ?? ""}
+        disabled={disabled || sessionOptions.length === 0}
+        onChange={(e) =>
+          onSelect({ agentId: session.agentId, sessionKey: e.target.value })
+        }
+        title="Session"
+      >
+        {!session.sessionKey && <option value="">Main session</option>}
+        {sessionOptions.map((option) => (
+          <option key={option.key} value={option.key}>
+            {option.displayName || option.label || option.key}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+};
+
+// Collapsible list of tool calls and reasoning for an agent turn
+const AgentActivityList: React.FC<{
+  entries: AgentActivityEntry[];
+}> = ({ entries }) => {
+  const getStatusColor = (status: AgentActivityEntry["status"]) => {
+    switch (status) {
+      case "running":
+        return "bg-yellow-400 animate-pulse";
+      case "error":
+        return "bg-red-400";
+      default:
+        return "bg-green-400";
+    }
+  };
+
+  return (
+    <div className="space-y-1">
+      {entries.map((entry) => (
+        <details key={entry.id} className="text-xs">
+          <summary className="cursor-pointer select-none text-gray-300 hover:text-white">
+            <span
+              className={`inline-block w-1.5 h-1.5 rounded-full mr-2 align-middle ${getStatusColor(entry.status)}`}
+            />
+            {entry.kind === "tool" ? (
+              <span className="font-mono">{entry.title}</span>
+            ) : (
+              <span className="italic">{entry.title}</span>
+            )}
+          </summary>
+          {entry.details && (
+            <pre className="mt-1 ml-3.5 p-2 bg-black/30 rounded text-[11px] text-gray-400 whitespace-pre-wrap break-words max-h-40 overflow-y-auto">
+              {entry.details}
+            </pre>
+          )}
+        </details>
+      ))}
+    </div>
+  );
+};
+
+// Message text, with the sentence being read out highlighted
+const MessageText: React.FC<{
+  text: string;
+  highlight?: { start: number; end: number };
+}> = ({ text, highlight }) => {
+  if (!highlight) {
+    return <div className="whitespace-pre-wrap">{text}</div>;
+  }
+  return (
+    <div className="whitespace-pre-wrap">
+      {text.substring(0, highlight.start)}
+      <mark className="bg-orange-400/30 text-inherit rounded-sm">
+        {text.substring(highlight.start, highlight.end)}
+      </mark>
+      {text.substring(highlight.end)}
+    </div>
+  );
+};
+
+// Read aloud button for a message, or the playback controls while it is being read
+const ReadAloudControls: React.FC<{
+  message: LiveAvatarSessionMessage;
+}> = ({ message }) => {
+  const {
+    readAloud,
+    startReadAloud,
+    pauseReadAloud,
+    resumeReadAloud,
+    skipReadAloud,
+    stopReadAloud,
+  } = useLiveAvatarContext();
+  const buttonClassName = "opacity-70 hover:opacity-100 px-1";
+
+  if (readAloud?.message.id !== message.id) {
+    return (
+      <button
+        onClick={() => startReadAloud(message)}
+        className={buttonClassName}
+        title="Read the full answer aloud"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M11 5L6 9H2v6h4l5 4V5z" />
+        </svg>
+      </button>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-0.5">
+      <span className="opacity-70 mr-1">
+        {readAloud.index + 1}/{readAloud.segments.length}
+      </span>
+      <button
+        onClick={readAloud.paused ? resumeReadAloud : pauseReadAloud}
+        className={buttonClassName}
+        title={readAloud.paused ? "Resume" : "Pause"}
+      >
+        {readAloud.paused ? (
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M8 5v14l11-7z" />
+          </svg>
+        ) : (
+          <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+            <path d="M6 5h4v14H6zM14 5h4v14h-4z" />
+          </svg>
+        )}
+      </button>
+      <button onClick={skipReadAloud} className={buttonClassName} title="Skip sentence">
+        <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M6 5l9 7-9 7zM16 5h2v14h-2z" />
+        </svg>
+      </button>
+      <button onClick={stopReadAloud} className={buttonClassName} title="Stop reading">
+        <svg className="w-3.5 h-3.5" fill="currentColor" viewBox="0 0 24 24">
+          <path d="M6 6h12v12H6z" />
+        </svg>
+      </button>
+    </div>
+  );
+};
+
+// Editable list of pronunciation fixes, saved to the app config
+const PronunciationSettings: React.FC<{
+  entries: LexiconEntry[];
+  onChange: (entries: LexiconEntry[]) => void;
+  onPreview: (entry: LexiconEntry) => void;
+}> = ({ entries, onChange, onPreview }) => {
+  const updateEntry = (id: string, changes: Partial<LexiconEntry>) => {
+    onChange(entries.map((entry) => (entry.id === id ? { ...entry, ...changes } : entry)));
+  };
+
+  const inputClassName =
+    "min-w-0 flex-1 bg-gray-800 text-white text-sm px-2 py-1.5 rounded border border-white/10 focus:outline-none focus:border-orange-500/50";
+
+  return (
+    <div>
+      <h3 className="text-white font-medium mb-1">Pronunciation</h3>
+      <p className="text-gray-400 text-xs mb-3">
+        Words the avatar should say differently, e.g. &quot;kubectl&quot; as &quot;cube control&quot;.
+        Plain words match whole words, regex entries can use $1 in the spoken form.
+      </p>
+
+      <div className="space-y-2">
+        {entries.map((entry) => {
+          const error = entry.match ? validateLexiconEntry(entry) : null;
+          return (
+            <div key={entry.id}>
+              <div className="flex items-center gap-2">
+                <input
+                  className={`${inputClassName} ${entry.regex ? "font-mono" : ""}`}
+                  value={entry.match}
+                  onChange={(e) => updateEntry(entry.id, { match: e.target.value })}
+                  placeholder={entry.regex ? "Pattern" : "Word"}
+                />
+                <span className="text-gray-500 text-sm">&rarr;</span>
+                <input
+                  className={inputClassName}
+                  value={entry.spoken}
+                  onChange={(e) => updateEntry(entry.id, { spoken: e.target.value })}
+                  placeholder="Say it as"
+                />
+                <label className="flex items-center gap-1 text-xs text-gray-400" title="Regular expression">
+                  <input
+                    type="checkbox"
+                    checked={entry.regex}
+                    onChange={(e) => updateEntry(entry.id, { regex: e.target.checked })}
+                  />
+                  .*
+                </label>
+                <label className="flex items-center gap-1 text-xs text-gray-400" title="Case sensitive">
+                  <input
+                    type="checkbox"
+                    checked={entry.caseSensitive}
+                    onChange={(e) => updateEntry(entry.id, { caseSensitive: e.target.checked })}
+                  />
+                  Aa
+                </label>
+                <button
+                  onClick={() => onPreview(entry)}
+                  disabled={!entry.match || !entry.spoken || Boolean(error)}
+                  className="text-xs text-orange-400 hover:text-orange-300 disabled:text-gray-600 px-1"
+                  title="Have the avatar say it"
+                >
+                  Preview
+                </button>
+                <button
+                  onClick={() => onChange(entries.filter((other) => other.id !== entry.id))}
+                  className="text-gray-500 hover:text-red-400 p-1"
+                  title="Remove"
+                >
+                  <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                  </svg>
+                </button>
+              </div>
+              {error && <div className="text-red-400 text-xs mt-1">{error}</div>}
+            </div>
+          );
+        })}
+      </div>
+
+      <button
+        onClick={() => onChange([...entries, createLexiconEntry()])}
+        className="mt-3 text-sm text-orange-400 hover:text-orange-300"
+      >
+        + Add word
+      </button>
+    </div>
+  );
+};
+
+// App settings, edited as a draft and saved together
+const SettingsDialog: React.FC<{
+  isOpen: boolean;
+  onClose: () => void;
+}> = ({ isOpen, onClose }) => {
+  const { lexicon, updateLexicon, previewPronunciation, idleSettings, updateIdleSettings } =
+    useLiveAvatarContext();
+  const [lexiconDraft, setLexiconDraft] = useState<LexiconEntry[]>([]);
+  const [idleDraft, setIdleDraft] = useState<IdleSettings>(idleSettings);
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setLexiconDraft(lexicon);
+      setIdleDraft(idleSettings);
+      setSaveError(null);
+    }
+  }, [isOpen, lexicon, idleSettings]);
+
+  if (!isOpen) return null;
+
+  const hasInvalidEntry = lexiconDraft.some(
+    (entry) => entry.match && validateLexiconEntry(entry)
+  );
+  // The config route turns down anything under 5s
+  const hasInvalidIdle = [
+    idleDraft.warnAfterMs,
+    idleDraft.endAfterWarningMs,
+    idleDraft.keepAliveIntervalMs,
+  ].some((duration) => !(duration >= 5000));
+
+  const handleSave = async () => {
+    setSaving(true);
+    setSaveError(null);
+    try {
+      // Rows left empty are dropped
+      await updateLexicon(lexiconDraft.filter((entry) => entry.match.trim()));
+      await updateIdleSettings(idleDraft);
+      onClose();
+    } catch (err) {
+      setSaveError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-2xl p-6 max-w-2xl w-full mx-4 max-h-[80vh] overflow-hidden flex flex-col">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-white">Settings</h2>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white p-1"
+          >
+            <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 pr-1">
+          <PronunciationSettings
+            entries={lexiconDraft}
+            onChange={setLexiconDraft}
+            onPreview={previewPronunciation}
+          />
+          <IdleTimeoutSettings settings={idleDraft} onChange={setIdleDraft} />
+        </div>
+
+        <div className="flex items-center justify-end gap-3 mt-4 pt-4 border-t border-white/10">
+          {saveError && <span className="text-red-400 text-xs mr-auto">{saveError}</span>}
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm text-gray-300 hover:text-white"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={saving || hasInvalidEntry || hasInvalidIdle}
+            className="px-4 py-2 text-sm bg-orange-500 hover:bg-orange-600 disabled:bg-gray-700 disabled:text-gray-500 text-white rounded-lg transition-colors"
+          >
+            {saving ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// When to keep the session alive, warn and end it for an idle user
+const IdleTimeoutSettings: React.FC<{
+  settings: IdleSettings;
+  onChange: (settings: IdleSettings) => void;
+}> = ({ settings, onChange }) => {
+  const fields: { key: keyof Omit<IdleSettings, "enabled">; label: string; unit: "min" | "s" }[] = [
+    { key: "warnAfterMs", label: "Ask \"are you still there?\" after", unit: "min" },
+    { key: "endAfterWarningMs", label: "End the session if nobody answers within", unit: "s" },
+    { key: "keepAliveIntervalMs", label: "Keep the session alive every", unit: "s" },
+  ];
+  const unitMs = { min: 60 * 1000, s: 1000 };
+
+  return (
+    <div className="mt-6">
+      <h3 className="text-white font-medium mb-1">Idle timeout</h3>
+      <p className="text-gray-400 text-xs mb-3">
+        The avatar session is billed while it&apos;s open. When nobody has talked, typed or
+        moved the mouse for a while, the avatar checks in and then ends the session.
+      </p>
+
+      <label className="flex items-center gap-2 text-sm text-gray-300 mb-3">
+        <input
+          type="checkbox"
+          checked={settings.enabled}
+          onChange={(e) => onChange({ ...settings, enabled: e.target.checked })}
+        />
+        End the session when I&apos;m away
+      </label>
+
+      <div className="space-y-2">
+        {fields.map(({ key, label, unit }) => (
+          <div key={key} className="flex items-center gap-2 text-sm text-gray-300">
+            <span className="flex-1">{label}</span>
+            <input
+              type="number"
+              min={unit === "min" ? 1 : 5}
+              value={Math.round(settings[key] / unitMs[unit])}
+              disabled={!settings.enabled}
+              onChange={(e) =>
+                onChange({ ...settings, [key]: Number(e.target.value) * unitMs[unit] })
+              }
+              className="w-20 bg-gray-800 text-white text-sm px-2 py-1.5 rounded border border-white/10 focus:outline-none focus:border-orange-500/50 disabled:text-gray-600"
+            />
+            <span className="w-8 text-gray-500">{unit}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// "Are you still there?" with a countdown to the session ending
+const IdleWarning: React.FC = () => {
+  const { idle, confirmPresence } = useLiveAvatarContext();
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (idle.endsAt === null) return;
+    setNow(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [idle.endsAt]);
+
+  if (idle.endsAt === null) return null;
+  const secondsLeft = Math.max(0, Math.ceil((idle.endsAt - now) / 1000));
+
+  return (
+    <div className="fixed inset-0 bg-black/70 flex items-center justify-center z-50">
+      <div className="bg-gray-900 rounded-2xl p-6 max-w-sm w-full mx-4 text-center">
+        <h2 className="text-xl font-semibold text-white mb-2">Are you still there?</h2>
+        <p className="text-gray-400 text-sm mb-4">
+          The session ends in {secondsLeft}s to save credits.
+        </p>
+        <button
+          onClick={confirmPresence}
+          className="px-4 py-2 text-sm bg-orange-500 hover:bg-orange-600 text-white rounded-lg transition-colors"
+        >
+          I&apos;m here
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// Saved conversations, to reopen or delete
+const ConversationHistory: React.FC<{
+  onClose: () => void;
+}> = ({ onClose }) => {
+  const {
+    conversations,
+    currentConversationId,
+    openConversation,
+    startNewConversation,
+    deleteConversation,
+    clearConversations,
+  } = useLiveAvatarContext();
+
+  const formatDate = (timestamp: number) =>
+    new Date(timestamp).toLocaleString(undefined, {
+      month: "short",
+      day: "numeric",
+      hour: "2-digit",
+      minute: "2-digit",
+    });
+
+  return (
+    <div className="flex-1 min-h-0 flex flex-col">
+      <div className="flex-shrink-0 px-4 py-2 flex items-center justify-between border-b border-white/10">
+        <button
+          onClick={() => {
+            startNewConversation();
+            onClose();
+          }}
+          className="text-sm text-orange-400 hover:text-orange-300"
+        >
+          + New conversation
+        </button>
+        {conversations.length > 0 && (
+          <button
+            onClick={() => {
+              if (window.confirm("Delete all saved conversations?")) {
+                clearConversations();
+              }
+            }}
+            className="text-xs text-gray-400 hover:text-red-400"
+          >
+            Clear all
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 min-h-0 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 ? (
+          <div className="text-gray-500 text-sm text-center py-8">
+            No saved conversations yet
+          </div>
+        ) : (
+          conversations.map((conversation) => (
+            <div
+              key={conversation.id}
+              className={`group flex items-start gap-2 px-3 py-2 rounded-lg cursor-pointer ${
+                conversation.id === currentConversationId
+                  ? "bg-orange-500/10 border border-orange-500/30"
+                  : "hover:bg-white/5 border border-transparent"
+              }`}
+              onClick={() => {
+                openConversation(conversation.id);
+                onClose();
+              }}
+            >
+              <div className="flex-1 min-w-0">
+                <div className="text-sm text-white truncate">{conversation.title}</div>
+                <div className="text-[10px] text-gray-500 truncate">
+                  {formatDate(conversation.updatedAt)} &middot; {conversation.messageCount} messages &middot;{" "}
+                  {conversation.sessionKey}
+                </div>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  deleteConversation(conversation.id);
+                }}
+                className="opacity-0 group-hover:opacity-100 text-gray-500 hover:text-red-400 p-1"
+                title="Delete conversation"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16" />
+                </svg>
+              </button>
+            </div>
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Reply the agent is still working on, with its tool calls so far
+const PendingReply: React.FC<{ activity: AgentActivityEntry[] }> = ({ activity }) => (
+  <div className="flex justify-start">
+    <div className="max-w-[90%] bg-gray-700 text-gray-100 px-3 py-2 rounded-lg text-sm">
+      <div className="flex items-center gap-2">
+        <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" />
+        <div
+          className="w-2 h-2 bg-blue-400 rounded-full animate-bounce"
+          style={{ animationDelay: "0.1s" }}
+        />
+        <div
+          className="w-2 h-2 bg-blue-400 rounded-full animate-bounce"
+          style={{ animationDelay: "0.2s" }}
+        />
+      </div>
+      {activity.length > 0 && (
+        <div className="mt-2">
+          <AgentActivityList entries={activity} />
+        </div>
+      )}
+    </div>
+  </div>
+);
+
+// Rolling turn latency per stage, to see where slow answers come from
+const LatencyOverlay: React.FC = () => {
+  const { latencyStats } = useLiveAvatarContext();
+  const stages = LATENCY_STAGES.filter((stage) => latencyStats[stage.id]);
+  const formatMs = (ms: number | null) =>
+    ms === null ? "-" : ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+
+  return (
+    <div className="bg-black/70 text-white text-[10px] rounded-lg px-3 py-2 min-w-[16rem]">
+      {stages.length === 0 ? (
+        <div className="text-white/60">No turns timed yet</div>
+      ) : (
+        <table className="w-full tabular-nums">
+          <thead>
+            <tr className="text-white/50 text-right">
+              <th className="text-left font-normal">Stage</th>
+              <th className="font-normal pl-2">Last</th>
+              <th className="font-normal pl-2">p50</th>
+              <th className="font-normal pl-2">p90</th>
+              <th className="font-normal pl-2">p95</th>
+            </tr>
+          </thead>
+          <tbody>
+            {stages.map((stage) => {
+              const stats = latencyStats[stage.id];
+              return (
+                <tr key={stage.id} className="text-right">
+                  <td className="text-left text-white/80" title={`${stats.count} turns`}>
+                    {stage.label}
+                  </td>
+                  <td className="pl-2">{formatMs(stats.last)}</td>
+                  <td className="pl-2">{formatMs(stats.p50)}</td>
+                  <td className="pl-2">{formatMs(stats.p90)}</td>
+                  <td className="pl-2">{formatMs(stats.p95)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
+
+const MEDIA_STATS_METRICS: {
+  label: string;
+  value: (sample: MediaStatsSample) => number | null;
+  unit: string;
+}[] = [
+  { label: "Video", value: (s) => s.videoKbps, unit: "kbps" },
+  { label: "Audio", value: (s) => s.audioKbps, unit: "kbps" },
+  { label: "Loss", value: (s) => s.packetLoss, unit: "%" },
+  { label: "Jitter", value: (s) => s.jitterMs, unit: "ms" },
+  { label: "Frame rate", value: (s) => s.fps, unit: "fps" },
+  { label: "RTT", value: (s) => s.rttMs, unit: "ms" },
+];
+
+// Tiny line graph of a metric over the stats history
+const Sparkline: React.FC<{
+  samples: MediaStatsSample[];
+  value: (sample: MediaStatsSample) => number | null;
+}> = ({ samples, value }) => {
+  const width = 120;
+  const height = 20;
+  const now = samples[samples.length - 1]?.at ?? Date.now();
+  const points = samples
+    .map((sample) => ({ at: sample.at, value: value(sample) }))
+    .filter((point): point is { at: number; value: number } => point.value !== null);
+  const max = Math.max(1, ...points.map((point) => point.value));
+  const path = points
+    .map((point) => {
+      const x = width - ((now - point.at) / DEFAULT_MEDIA_STATS_OPTIONS.historyMs) * width;
+      const y = height - (point.value / max) * (height - 2) - 1;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(" ");
+
+  return (
+    <svg width={width} height={height} className="text-orange-400">
+      <polyline points={path} fill="none" stroke="currentColor" strokeWidth={1.5} />
+    </svg>
+  );
+};
+
+// WebRTC stats of the avatar stream, graphed over the last few minutes,
+// with the connection quality changes to copy into a bug report
+const MediaStatsPanel: React.FC = () => {
+  const { mediaStats, qualityLog, connectionQuality } = useLiveAvatarContext();
+  const [copied, setCopied] = useState(false);
+  const latest = mediaStats[mediaStats.length - 1];
+
+  const handleCopy = () => {
+    const report = {
+      connectionQuality,
+      latest: latest ?? null,
+      qualityLog,
+      userAgent: navigator.userAgent,
+    };
+    navigator.clipboard
+      .writeText(JSON.stringify(report, null, 2))
+      .then(() => {
+        setCopied(true);
+        setTimeout(() => setCopied(false), 2000);
+      })
+      .catch((err) => console.error("[MediaStats] Failed to copy stats:", err));
+  };
+
+  return (
+    <div className="bg-black/70 text-white text-[10px] rounded-lg px-3 py-2 w-72">
+      {!latest ? (
+        <div className="text-white/60">No media stats yet</div>
+      ) : (
+        <>
+          <div className="flex justify-between text-white/60 mb-1">
+            <span>Resolution</span>
+            <span className="tabular-nums text-white">
+              {latest.width && latest.height ? `${latest.width}x${latest.height}` : "-"}
+            </span>
+          </div>
+          {MEDIA_STATS_METRICS.map((metric) => {
+            const current = metric.value(latest);
+            return (
+              <div key={metric.label} className="flex items-center justify-between gap-2">
+                <span className="w-14 text-white/60">{metric.label}</span>
+                <Sparkline samples={mediaStats} value={metric.value} />
+                <span className="w-16 text-right tabular-nums">
+                  {current === null ? "-" : `${current} ${metric.unit}`}
+                </span>
+              </div>
+            );
+          })}
+        </>
+      )}
+      <div className="mt-2 pt-2 border-t border-white/10">
+        <div className="flex items-center justify-between text-white/60 mb-1">
+          <span>Quality changes</span>
+          <button onClick={handleCopy} className="hover:text-white">
+            {copied ? "Copied" : "Copy report"}
+          </button>
+        </div>
+        {qualityLog.length === 0 ? (
+          <div className="text-white/40">None yet</div>
+        ) : (
+          <div className="max-h-24 overflow-y-auto space-y-0.5">
+            {[...qualityLog].reverse().map((change) => (
+              <div key={change.at} className="flex justify-between tabular-nums">
+                <span className="text-white/60">
+                  {new Date(change.at).toLocaleTimeString()}
+                </span>
+                <span className={change.quality === ConnectionQuality.BAD ? "text-red-400" : ""}>
+                  {change.quality}
+                  {typeof change.sample?.packetLoss === "number" &&
+                    ` · ${change.sample.packetLoss}% loss`}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Download the conversation in one of the export formats
+const ExportMenu: React.FC<{ disabled: boolean }> = ({ disabled }) => {
+  const { exportConversation } = useLiveAvatarContext();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen((open) => !open)}
+        disabled={disabled}
+        className={`p-1 rounded transition-colors disabled:text-gray-600 ${
+          isOpen ? "text-orange-400" : "text-gray-400 hover:text-white"
+        }`}
+        title="Export conversation"
+      >
+        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
+        </svg>
+      </button>
+      {isOpen && (
+        <div className="absolute right-0 top-full mt-1 w-44 bg-gray-800 border border-white/10 rounded-lg shadow-lg py-1 z-20">
+          {(Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[]).map((format) => (
+            <button
+              key={format}
+              onClick={() => {
+                exportConversation(format);
+                setIsOpen(false);
+              }}
+              className="w-full text-left px-3 py-1.5 text-sm text-gray-300 hover:bg-white/5 hover:text-white"
+            >
+              {EXPORT_FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
 // Chat transcript panel component with text input
 const ChatPanel: React.FC = () => {
-  const { messages, gatewayState, isProcessingAgent, addTypedMessage, isDemoMode } = useLiveAvatarContext();
+  const {
+    messages,
+    gatewayState,
+    reconnectAttempt,
+    retryGateway,
+    isProcessingAgent,
+    addTypedMessage,
+    isDemoMode,
+    agentActivity,
+    pendingTurns,
+    gatewaySession,
+    selectGatewaySession,
+    speechPolicy,
+    setSpeechPolicy,
+    readAloud,
+  } = useLiveAvatarContext();
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
   const [inputText, setInputText] = useState("");
 
-  // In demo mode or when connected, allow input
+  // Input stays enabled while offline - those messages go to the outbox
   const isReady = isDemoMode || gatewayState === "connected";
 
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  }, [messages]);
+  }, [messages, agentActivity, isHistoryOpen]);
 
   const handleSendMessage = () => {
     const text = inputText.trim();
@@ -433,63 +1286,167 @@ const ChatPanel: React.FC = () => {
     <div className="flex flex-col h-full overflow-hidden bg-gray-900/50 rounded-2xl border border-white/10">
       {/* Header with Gateway status */}
       <div className="flex-shrink-0 px-4 py-3 border-b border-white/10 flex items-center justify-between">
-        <h3 className="text-white font-medium">Conversation</h3>
-        <GatewayStatus state={gatewayState} isProcessing={isProcessingAgent} isDemoMode={isDemoMode} />
-      </div>
-
-      {/* Messages */}
-      <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3">
-        {messages.length === 0 ? (
-          <div className="text-gray-500 text-sm text-center py-8">
-            {isDemoMode ? (
-              <>Demo mode active. Type &quot;help&quot; to learn about this integration!</>
-            ) : gatewayState === "connected" ? (
-              <>Start speaking or type below to chat with your OpenClaw agent</>
-            ) : (
-              <>Connecting to OpenClaw Gateway...</>
-            )}
-          </div>
+        {!isDemoMode && gatewayState === "connected" ? (
+          <SessionPicker
+            session={gatewaySession}
+            onSelect={selectGatewaySession}
+            disabled={isProcessingAgent}
+          />
         ) : (
-          messages.map((msg, index) => (
-            <div
-              key={index}
-              className={`flex ${msg.sender === MessageSender.USER ? "justify-end" : "justify-start"}`}
-            >
-              <div
-                className={`max-w-[90%] px-4 py-3 rounded-xl text-sm leading-relaxed ${
-                  msg.sender === MessageSender.USER
-                    ? "bg-blue-600 text-white"
-                    : "bg-gray-700 text-gray-100"
-                }`}
-              >
-                <div className="text-xs opacity-70 mb-1.5 font-medium">
-                  {msg.sender === MessageSender.USER ? "You" : "OpenClaw Agent"}
-                </div>
-                <div className="whitespace-pre-wrap">{msg.message}</div>
-              </div>
-            </div>
-          ))
-        )}
-        {isProcessingAgent && (
-          <div className="flex justify-start">
-            <div className="bg-gray-700 text-gray-100 px-3 py-2 rounded-lg text-sm">
-              <div className="flex items-center gap-2">
-                <div className="w-2 h-2 bg-blue-400 rounded-full animate-bounce" />
-                <div
-                  className="w-2 h-2 bg-blue-400 rounded-full animate-bounce"
-                  style={{ animationDelay: "0.1s" }}
-                />
-                <div
-                  className="w-2 h-2 bg-blue-400 rounded-full animate-bounce"
-                  style={{ animationDelay: "0.2s" }}
-                />
-              </div>
-            </div>
-          </div>
+          <h3 className="text-white font-medium">Conversation</h3>
         )}
-        <div ref={messagesEndRef} />
+        <div className="flex items-center gap-2">
+          <GatewayStatus
+            state={gatewayState}
+            isProcessing={isProcessingAgent}
+            isDemoMode={isDemoMode}
+            reconnectAttempt={reconnectAttempt}
+            onRetry={retryGateway}
+          />
+          <ExportMenu disabled={messages.length === 0} />
+          <button
+            onClick={() => setIsHistoryOpen((open) => !open)}
+            className={`p-1 rounded transition-colors ${
+              isHistoryOpen ? "text-orange-400" : "text-gray-400 hover:text-white"
+            }`}
+            title="Saved conversations"
+          >
+            <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+            </svg>
+          </button>
+        </div>
       </div>
 
+      {isHistoryOpen ? (
+        <ConversationHistory onClose={() => setIsHistoryOpen(false)} />
+      ) : (
+        /* Messages */
+        <div className="flex-1 min-h-0 overflow-y-auto p-4 space-y-3">
+          {messages.length === 0 ? (
+            <div className="text-gray-500 text-sm text-center py-8">
+              {isDemoMode ? (
+                <>Demo mode active. Type &quot;help&quot; to learn about this integration!</>
+              ) : gatewayState === "connected" ? (
+                <>Start speaking or type below to chat with your OpenClaw agent</>
+              ) : gatewayState === "reconnecting" ? (
+                <>Connection lost, reconnecting to OpenClaw Gateway...</>
+              ) : (
+                <>Connecting to OpenClaw Gateway...</>
+              )}
+            </div>
+          ) : (
+            messages.map((msg, index) => (
+              <React.Fragment key={msg.id}>
+                {index > 0 && messages[index - 1].fromHistory && !msg.fromHistory && (
+                  <div className="flex items-center gap-2 text-[10px] uppercase tracking-wide text-gray-500">
+                    <div className="flex-1 h-px bg-white/10" />
+                    Continued here
+                    <div className="flex-1 h-px bg-white/10" />
+                  </div>
+                )}
+                {msg.sender === MessageSender.AVATAR && isInProgress(msg) ? (
+                  <PendingReply activity={agentActivity} />
+                ) : (
+                  <div
+                    className={`flex ${msg.sender === MessageSender.USER ? "justify-end" : "justify-start"}`}
+                  >
+                    <div
+                      className={`max-w-[90%] px-4 py-3 rounded-xl text-sm leading-relaxed ${
+                        msg.sender === MessageSender.USER
+                          ? "bg-blue-600 text-white"
+                          : "bg-gray-700 text-gray-100"
+                      } ${msg.status === "cancelled" ? "opacity-60" : ""}`}
+                    >
+                      <div className="flex items-center justify-between gap-2 text-xs mb-1.5">
+                        <div className="opacity-70 font-medium">
+                          {msg.sender === MessageSender.USER ? "You" : "OpenClaw Agent"}
+                          {msg.status === "cancelled" && <span className="ml-2 italic">Interrupted</span>}
+                          {msg.status === "failed" && !msg.delivery && (
+                            <span className="ml-2 italic text-red-300">Failed</span>
+                          )}
+                          {msg.latency?.totalMs !== undefined && (
+                            <span
+                              className="ml-2 font-normal"
+                              title={
+                                msg.latency.firstSpeechMs !== undefined
+                                  ? `Started speaking after ${(msg.latency.firstSpeechMs / 1000).toFixed(1)}s`
+                                  : undefined
+                              }
+                            >
+                              {(msg.latency.totalMs / 1000).toFixed(1)}s
+                            </span>
+                          )}
+                        </div>
+                        {msg.sender === MessageSender.AVATAR && msg.message.trim() && (
+                          <ReadAloudControls message={msg} />
+                        )}
+                      </div>
+                      {msg.activity && msg.activity.length > 0 && (
+                        <details className="mb-2 text-xs">
+                          <summary className="cursor-pointer select-none opacity-70 hover:opacity-100">
+                            {msg.activity.length} {msg.activity.length === 1 ? "step" : "steps"}
+                          </summary>
+                          <div className="mt-1 pl-2 border-l border-white/10">
+                            <AgentActivityList entries={msg.activity} />
+                          </div>
+                        </details>
+                      )}
+                      <MessageText
+                        text={msg.message}
+                        highlight={
+                          readAloud?.message.id === msg.id
+                            ? readAloud.segments[readAloud.index]
+                            : undefined
+                        }
+                      />
+                      {msg.attachments && msg.attachments.length > 0 && (
+                        <div className="mt-2 flex flex-wrap gap-1.5">
+                          {msg.attachments.map((attachment) => (
+                            <a
+                              key={attachment.id}
+                              href={attachment.url}
+                              target="_blank"
+                              rel="noreferrer"
+                              className="text-xs px-2 py-0.5 rounded bg-black/20 hover:bg-black/30 truncate max-w-[12rem]"
+                              title={attachment.mimeType}
+                            >
+                              {attachment.name}
+                            </a>
+                          ))}
+                        </div>
+                      )}
+                      {msg.spokenText && msg.spokenText !== msg.message && (
+                        <details className="mt-2 text-xs">
+                          <summary className="cursor-pointer select-none opacity-70 hover:opacity-100">
+                            Spoken
+                          </summary>
+                          <div className="mt-1 pl-2 border-l border-white/10 opacity-80">
+                            {msg.spokenText}
+                          </div>
+                        </details>
+                      )}
+                      {msg.delivery && (
+                        <div
+                          className={`text-[10px] mt-1.5 text-right ${
+                            msg.delivery === "failed" ? "text-red-300" : "opacity-70"
+                          }`}
+                        >
+                          {msg.delivery === "queued" && "Queued - will send when reconnected"}
+                          {msg.delivery === "sent" && "Sent"}
+                          {msg.delivery === "failed" && "Failed to send"}
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                )}
+              </React.Fragment>
+            ))
+          )}
+          <div ref={messagesEndRef} />
+        </div>
+      )}
+
       {/* Text input */}
       <div className="flex-shrink-0 p-3 border-t border-white/10">
         <div className="flex gap-2">
@@ -498,13 +1455,16 @@ const ChatPanel: React.FC = () => {
             value={inputText}
             onChange={(e) => setInputText(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder={isReady ? "Type a message..." : "Waiting for connection..."}
-            disabled={!isReady || isProcessingAgent}
+            placeholder={
+              isReady
+                ? "Type a message..."
+                : "Offline - messages will be sent when reconnected"
+            }
             className="flex-1 bg-gray-800 text-white text-sm px-3 py-2 rounded-lg border border-white/10 focus:border-orange-500/50 focus:outline-none disabled:opacity-50 disabled:cursor-not-allowed placeholder-gray-500"
           />
           <button
             onClick={handleSendMessage}
-            disabled={!inputText.trim() || !isReady || isProcessingAgent}
+            disabled={!inputText.trim()}
             className="bg-orange-500 hover:bg-orange-600 disabled:bg-gray-600 disabled:cursor-not-allowed text-white px-4 py-2 rounded-lg transition-colors"
           >
             <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -512,6 +1472,27 @@ const ChatPanel: React.FC = () => {
             </svg>
           </button>
         </div>
+        <div className="flex items-center justify-between gap-2 mt-1.5 text-[10px] text-gray-400">
+          <label className="flex items-center gap-1" title="How much of each reply the avatar says">
+            Avatar says
+            <select
+              className="bg-black/30 text-[10px] text-white/80 rounded px-1 py-0.5 border border-white/10"
+              value={speechPolicy}
+              onChange={(e) => setSpeechPolicy(e.target.value as SpeechPolicy)}
+            >
+              {(Object.keys(SPEECH_POLICY_LABELS) as SpeechPolicy[]).map((policy) => (
+                <option key={policy} value={policy}>
+                  {SPEECH_POLICY_LABELS[policy]}
+                </option>
+              ))}
+            </select>
+          </label>
+          {pendingTurns > 0 && (
+            <span>
+              {pendingTurns} {pendingTurns === 1 ? "message" : "messages"} queued - will be answered in order
+            </span>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -543,10 +1524,26 @@ const LiveAvatarSessionComponent: React.FC<{
     restartWithDevice,
   } = useVoiceChat();
 
-  const { interrupt } = useAvatarActions("FULL");
-  const { gatewayState, isProcessingAgent } = useLiveAvatarContext();
+  const {
+    gatewayState,
+    turnPhase,
+    interruptTurn,
+    agentActivity,
+    stopReadAloud,
+    degradation,
+    setPresentation,
+    acceptPresentationSuggestion,
+    dismissPresentationSuggestion,
+  } = useLiveAvatarContext();
+  const isAwaitingAgent = turnPhase === "sending" || turnPhase === "streaming";
+  const runningTool = [...agentActivity]
+    .reverse()
+    .find((entry) => entry.kind === "tool" && entry.status === "running");
 
   const videoRef = useRef<HTMLVideoElement>(null);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [isLatencyOpen, setIsLatencyOpen] = useState(false);
+  const [isMediaStatsOpen, setIsMediaStatsOpen] = useState(false);
 
   useEffect(() => {
     if (sessionState === SessionState.DISCONNECTED) {
@@ -630,9 +1627,67 @@ const LiveAvatarSessionComponent: React.FC<{
             ref={videoRef}
             autoPlay
             playsInline
-            className="w-full h-full object-contain"
+            className={`w-full h-full object-contain ${
+              degradation.presentation !== "video" ? "invisible" : ""
+            }`}
           />
 
+          {/* Audio-only / text-only stand-in for the video */}
+          {degradation.presentation !== "video" && sessionState === SessionState.CONNECTED && (
+            <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 text-white">
+              <div
+                className={`w-20 h-20 rounded-full bg-gray-700 flex items-center justify-center ${
+                  isAvatarTalking ? "ring-4 ring-blue-500/60 animate-pulse" : ""
+                }`}
+              >
+                <svg className="w-10 h-10 text-white/70" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  {degradation.presentation === "audio-only" ? (
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15.536 8.464a5 5 0 010 7.072M18.364 5.636a9 9 0 010 12.728M5.586 15H4a1 1 0 01-1-1v-4a1 1 0 011-1h1.586l4.707-4.707C10.923 3.663 12 4.109 12 5v14c0 .891-1.077 1.337-1.707.707L5.586 15z" />
+                  ) : (
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+                  )}
+                </svg>
+              </div>
+              <div className="text-sm text-white/80">
+                {degradation.presentation === "audio-only"
+                  ? "Audio only"
+                  : "Text only - replies are shown in the chat"}
+                {degradation.degraded && " (poor connection)"}
+              </div>
+              <button
+                onClick={() => setPresentation("video")}
+                className="text-xs text-orange-400 hover:text-orange-300"
+              >
+                Back to video
+              </button>
+            </div>
+          )}
+
+          {/* Offer to switch presentation when the connection changes */}
+          {degradation.suggestion && (
+            <div className="absolute bottom-20 left-1/2 -translate-x-1/2 bg-black/80 text-white text-sm rounded-lg px-4 py-2 flex items-center gap-3 z-10">
+              <span>
+                {degradation.suggestion === "video"
+                  ? "Connection is back. Switch back to video?"
+                  : degradation.suggestion === "audio-only"
+                    ? "Poor connection. Switch to audio only?"
+                    : "Still a poor connection. Switch to text only?"}
+              </span>
+              <button
+                onClick={acceptPresentationSuggestion}
+                className="px-2 py-1 rounded bg-orange-500 hover:bg-orange-600 text-xs"
+              >
+                Switch
+              </button>
+              <button
+                onClick={dismissPresentationSuggestion}
+                className="text-xs text-white/60 hover:text-white"
+              >
+                Dismiss
+              </button>
+            </div>
+          )}
+
           {/* Status overlay */}
           {sessionState !== SessionState.CONNECTED && (
             <div className="absolute inset-0 flex items-center justify-center bg-black/50">
@@ -683,17 +1738,40 @@ const LiveAvatarSessionComponent: React.FC<{
                 Agent speaking
               </div>
             )}
-            {isProcessingAgent && (
+            {isAwaitingAgent && (
               <div className="bg-yellow-500/80 text-white text-xs px-2 py-1 rounded-full flex items-center gap-1">
                 <span className="w-2 h-2 bg-white rounded-full animate-pulse" />
-                Thinking...
+                {runningTool ? `Running ${runningTool.title}...` : "Thinking..."}
               </div>
             )}
           </div>
 
-          {/* Connection quality */}
-          <div className="absolute top-4 right-4 px-3 py-1.5 rounded-full text-xs bg-black/50 text-white">
-            {connectionQuality}
+          {/* Connection quality and diagnostics */}
+          <div className="absolute top-4 right-4 flex flex-col items-end gap-2">
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setIsLatencyOpen((open) => !open)}
+                className={`px-2 py-1.5 rounded-full text-xs bg-black/50 transition-colors ${
+                  isLatencyOpen ? "text-orange-400" : "text-white/70 hover:text-white"
+                }`}
+                title="Turn latency"
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 19v-6a2 2 0 00-2-2H5a2 2 0 00-2 2v6a2 2 0 002 2h2a2 2 0 002-2zm0 0V9a2 2 0 012-2h2a2 2 0 012 2v10m-6 0a2 2 0 002 2h2a2 2 0 002-2m0 0V5a2 2 0 012-2h2a2 2 0 012 2v14a2 2 0 01-2 2h-2a2 2 0 01-2-2z" />
+                </svg>
+              </button>
+              <button
+                onClick={() => setIsMediaStatsOpen((open) => !open)}
+                className={`px-3 py-1.5 rounded-full text-xs bg-black/50 transition-colors ${
+                  isMediaStatsOpen ? "text-orange-400" : "text-white hover:text-orange-300"
+                }`}
+                title="Media stats"
+              >
+                {connectionQuality}
+              </button>
+            </div>
+            {isLatencyOpen && <LatencyOverlay />}
+            {isMediaStatsOpen && <MediaStatsPanel />}
           </div>
         </div>
 
@@ -755,7 +1833,10 @@ const LiveAvatarSessionComponent: React.FC<{
 
           {/* Interrupt button */}
           <button
-            onClick={() => interrupt()}
+            onClick={() => {
+              stopReadAloud();
+              interruptTurn();
+            }}
             className="bg-orange-500 hover:bg-orange-600 text-white p-3 rounded-full transition-colors"
             title="Interrupt avatar"
           >
@@ -779,6 +1860,33 @@ const LiveAvatarSessionComponent: React.FC<{
               />
             </svg>
           </button>
+
+          {/* Settings button */}
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="bg-gray-700 hover:bg-gray-600 text-white p-3 rounded-full transition-colors"
+            title="Settings"
+          >
+            <svg
+              className="w-5 h-5"
+              fill="none"
+              stroke="currentColor"
+              viewBox="0 0 24 24"
+            >
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924 1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572c-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"
+              />
+              <path
+                strokeLinecap="round"
+                strokeLinejoin="round"
+                strokeWidth={2}
+                d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"
+              />
+            </svg>
+          </button>
         </div>
 
         {/* Status text */}
@@ -805,6 +1913,12 @@ const LiveAvatarSessionComponent: React.FC<{
         <ChatPanel />
       </div>
 
+      <SettingsDialog
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+
+      <IdleWarning />
     </div>
   );
 };
@@ -813,9 +1927,33 @@ export const LiveAvatarSession: React.FC<{
   sessionAccessToken: string;
   onSessionStopped: () => void;
   onAvatarChange?: (avatarId: string) => void;
-}> = ({ sessionAccessToken, onSessionStopped, onAvatarChange }) => {
+  bargeIn?: boolean;
+  responseFormat?: ResponseFormat;
+  degradation?: DegradationConfig | false;
+  idleTimeout?: boolean;
+  avatarId?: string;
+  createSession?: LiveAvatarSessionFactory;
+}> = ({
+  sessionAccessToken,
+  onSessionStopped,
+  onAvatarChange,
+  bargeIn,
+  responseFormat,
+  degradation,
+  idleTimeout,
+  avatarId,
+  createSession,
+}) => {
   return (
-    <LiveAvatarContextProvider sessionAccessToken={sessionAccessToken}>
+    <LiveAvatarContextProvider
+      sessionAccessToken={sessionAccessToken}
+      avatarId={avatarId}
+      createSession={createSession}
+      bargeIn={bargeIn}
+      responseFormat={responseFormat}
+      degradation={degradation}
+      idleTimeout={idleTimeout}
+    >
       <LiveAvatarSessionComponent
         onSessionStopped={onSessionStopped}
         onAvatarChange={onAvatarChange}
@@ -823,3 +1961,98 @@ export const LiveAvatarSession: React.FC<{
     </LiveAvatarContextProvider>
   );
 };
+
+// Chat against the gateway without an avatar, replies optionally read out by
+// the browser
+const GatewayChatComponent: React.FC<{
+  onSessionStopped: () => void;
+}> = ({ onSessionStopped }) => {
+  const { sessionState, startSession, stopSession } = useSession();
+  const { gatewayState, setPresentation } = useLiveAvatarContext();
+  const [speakReplies, setSpeakReplies] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const canSpeak = isSpeechSynthesisAvailable();
+
+  useEffect(() => {
+    if (sessionState === SessionState.DISCONNECTED) {
+      onSessionStopped();
+    }
+  }, [sessionState, onSessionStopped]);
+
+  useEffect(() => {
+    if (sessionState === SessionState.INACTIVE) {
+      startSession();
+    }
+  }, [startSession, sessionState]);
+
+  // Silent unless the user asks for replies to be read out
+  useEffect(() => {
+    setPresentation(speakReplies ? "audio-only" : "text-only");
+  }, [speakReplies, setPresentation]);
+
+  return (
+    <div className="w-full max-w-3xl flex flex-col gap-3 py-4 px-4 h-[calc(100vh-2rem)]">
+      <div className="flex items-center justify-between gap-3 text-sm">
+        <div className="text-gray-400">
+          Text mode - no avatar
+          {gatewayState !== "connected" && (
+            <span className="ml-2 text-yellow-400">Waiting for OpenClaw Gateway...</span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          <label
+            className={`flex items-center gap-1.5 ${canSpeak ? "text-gray-300" : "text-gray-600"}`}
+            title={canSpeak ? "Read replies with the browser's voice" : "Speech isn't supported in this browser"}
+          >
+            <input
+              type="checkbox"
+              checked={speakReplies}
+              disabled={!canSpeak}
+              onChange={(e) => setSpeakReplies(e.target.checked)}
+            />
+            Read replies aloud
+          </label>
+          <button
+            onClick={() => setIsSettingsOpen(true)}
+            className="text-gray-400 hover:text-white"
+          >
+            Settings
+          </button>
+          <button
+            onClick={() => stopSession()}
+            className="px-3 py-1.5 bg-red-500 hover:bg-red-600 text-white rounded-lg transition-colors"
+          >
+            End
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex flex-col overflow-hidden">
+        <ChatPanel />
+      </div>
+
+      <SettingsDialog
+        isOpen={isSettingsOpen}
+        onClose={() => setIsSettingsOpen(false)}
+      />
+    </div>
+  );
+};
+
+export const GatewayChatSession: React.FC<{
+  onSessionStopped: () => void;
+  responseFormat?: ResponseFormat;
+}> = ({ onSessionStopped, responseFormat }) => {
+  return (
+    <LiveAvatarContextProvider
+      sessionAccessToken=""
+      createSession={createTextModeSession}
+      responseFormat={responseFormat}
+      // No video to fall back from, and nothing billed to end
+      degradation={false}
+      idleTimeout={false}
+    >
+      <GatewayChatComponent onSessionStopped={onSessionStopped} />
+    </LiveAvatarContextProvider>
+  );
+};
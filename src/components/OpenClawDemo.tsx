@@ -1,11 +1,11 @@
 "use client";
 
 import { useState, useEffect, useCallback, useRef } from "react";
-import { LiveAvatarSession } from "./LiveAvatarSession";
+import { GatewayChatSession, LiveAvatarSession } from "./LiveAvatarSession";
 import { getGatewayClient } from "../gateway/client";
 import { GatewayConnectionState } from "../gateway/types";
 
-type SessionState = "idle" | "connecting" | "session" | "ended" | "error";
+type SessionState = "idle" | "connecting" | "session" | "text" | "ended" | "error";
 
 interface Avatar {
   id: string;
@@ -119,6 +119,7 @@ const AvatarSection = ({
 
 export const OpenClawDemo = () => {
   const [sessionToken, setSessionToken] = useState("");
+  const [avatarId, setAvatarId] = useState<string | undefined>();
   const [error, setError] = useState<string | null>(null);
   const [sessionState, setSessionState] = useState<SessionState>("connecting"); // Start connecting immediately
   const [customAvatars, setCustomAvatars] = useState<Avatar[]>([]);
@@ -133,6 +134,7 @@ export const OpenClawDemo = () => {
   const startSessionWithAvatar = useCallback(async (avatarId?: string) => {
     setError(null);
     setSessionState("connecting");
+    setAvatarId(avatarId);
 
     try {
       const sessionRes = await fetch("/api/start-session", {
@@ -284,6 +286,13 @@ export const OpenClawDemo = () => {
             Back to Avatar Selection
           </button>
 
+          <button
+            onClick={() => setSessionState("text")}
+            className="text-sm text-gray-300 hover:text-white underline"
+          >
+            Continue in text mode
+          </button>
+
           <p className="text-xs text-gray-500 text-center">
             Make sure your LIVEAVATAR_API_KEY is configured in .env.local
           </p>
@@ -314,12 +323,13 @@ export const OpenClawDemo = () => {
           <div className="flex items-center gap-2 px-4 py-2 bg-gray-800/50 rounded-lg">
             <div className={`w-2 h-2 rounded-full ${
               gatewayState === "connected" ? "bg-green-500" :
-              gatewayState === "connecting" ? "bg-yellow-500 animate-pulse" :
+              gatewayState === "connecting" || gatewayState === "reconnecting" ? "bg-yellow-500 animate-pulse" :
               "bg-gray-500"
             }`} />
             <span className="text-sm text-gray-300">
               {gatewayState === "connected" ? "OpenClaw Connected" :
                gatewayState === "connecting" ? "Connecting to OpenClaw..." :
+               gatewayState === "reconnecting" ? "Reconnecting to OpenClaw..." :
                "OpenClaw Disconnected"}
             </span>
           </div>
@@ -363,6 +373,13 @@ export const OpenClawDemo = () => {
             )}
           </div>
 
+          <button
+            onClick={() => setSessionState("text")}
+            className="text-sm text-gray-300 hover:text-white underline"
+          >
+            Chat without an avatar
+          </button>
+
           {/* Footer */}
           <p className="text-xs text-gray-500 text-center">
             Powered by{" "}
@@ -389,11 +406,21 @@ export const OpenClawDemo = () => {
     );
   }
 
+  // Text mode - no avatar, just the chat against the gateway
+  if (sessionState === "text") {
+    return (
+      <div className="w-full h-full flex justify-center">
+        <GatewayChatSession onSessionStopped={onSessionStopped} />
+      </div>
+    );
+  }
+
   // Session screen
   return (
     <LiveAvatarSession
       sessionAccessToken={sessionToken}
       onSessionStopped={onSessionStopped}
+      avatarId={avatarId}
     />
   );
 };
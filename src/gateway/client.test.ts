@@ -0,0 +1,314 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import WebSocket from "ws";
+import { startFakeGateway } from "../../scripts/fake-gateway.js";
+import { OpenClawGatewayClient } from "./client";
+import { GatewayConnectionState } from "./types";
+
+type FakeGateway = Awaited<ReturnType<typeof startFakeGateway>>;
+// See the comment at the top of scripts/fake-gateway.js for the format
+type Scenario = Record<string, unknown>;
+
+// The client is written for the browser's WebSocket
+globalThis.WebSocket = WebSocket as unknown as typeof globalThis.WebSocket;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const assistant = (delta: string) => ({ stream: "assistant", data: { delta } });
+const end = { stream: "lifecycle", data: { phase: "end" } };
+
+describe("OpenClawGatewayClient against the fake gateway", () => {
+  let gateway: FakeGateway | null = null;
+  let client: OpenClawGatewayClient | null = null;
+  let states: GatewayConnectionState[] = [];
+
+  const start = async (scenario: Scenario = {}, token?: string) => {
+    gateway = await startFakeGateway({ port: 0, quiet: true, scenario, token });
+    client = new OpenClawGatewayClient(`ws://127.0.0.1:${gateway.port}`, token);
+    states = [];
+    client.onConnectionState((state) => states.push(state));
+    return { gateway, client };
+  };
+
+  beforeEach(() => {
+    // The client logs every frame
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    client?.disconnect();
+    client = null;
+    await gateway?.close();
+    gateway = null;
+    vi.restoreAllMocks();
+  });
+
+  describe("handshake", () => {
+    it("connects and picks up the session defaults", async () => {
+      const { client } = await start({ sessionKey: "agent:ops:main" });
+
+      await client.connect();
+
+      expect(client.state).toBe("connected");
+      expect(states).toEqual(["connecting", "connected"]);
+      expect(client.session).toEqual({ agentId: "ops", sessionKey: "agent:ops:main" });
+    });
+
+    it("sends the token and fails on a wrong one", async () => {
+      const { gateway } = await start({}, "secret");
+      const wrong = new OpenClawGatewayClient(`ws://127.0.0.1:${gateway.port}`, "nope");
+
+      await expect(wrong.connect()).rejects.toThrow("Invalid gateway token");
+      expect(wrong.state).toBe("error");
+      wrong.disconnect();
+
+      await client!.connect();
+      expect(client!.state).toBe("connected");
+    });
+
+    it("doesn't retry when the first connect fails", async () => {
+      const { gateway } = await start();
+      const port = gateway.port;
+      await gateway.close();
+      const unreachable = new OpenClawGatewayClient(`ws://127.0.0.1:${port}`);
+      const seen: GatewayConnectionState[] = [];
+      unreachable.onConnectionState((state) => seen.push(state));
+
+      await expect(unreachable.connect()).rejects.toThrow();
+      await sleep(100);
+
+      expect(unreachable.state).toBe("disconnected");
+      expect(seen).not.toContain("reconnecting");
+      unreachable.disconnect();
+    });
+  });
+
+  describe("streamed replies", () => {
+    it("collects the streamed reply and speaks the [TTS] summary as it arrives", async () => {
+      const { client } = await start({
+        replies: [
+          {
+            match: "weather",
+            steps: [
+              { stream: "tool", data: { phase: "start", name: "web_search", toolCallId: "t1" } },
+              { stream: "tool", data: { phase: "result", name: "web_search", toolCallId: "t1" } },
+              assistant("[TTS]It's sunny. "),
+              assistant("Twenty degrees.[/TTS]\n"),
+              assistant("Full forecast follows."),
+              end,
+            ],
+          },
+        ],
+      });
+      await client.connect();
+
+      const speech: string[] = [];
+      const deltas: string[] = [];
+      const activity: string[] = [];
+      const accepted = vi.fn();
+      const response = await client.sendToAgent("What's the weather?", {
+        onSpeech: (sentence) => speech.push(sentence),
+        onDelta: (delta) => deltas.push(delta),
+        onActivity: (event) => activity.push(event.kind === "tool" ? event.phase : event.kind),
+        onAccepted: accepted,
+      });
+
+      expect(response.status).toBe("completed");
+      expect(response.text).toBe(
+        "[TTS]It's sunny. Twenty degrees.[/TTS]\nFull forecast follows."
+      );
+      expect(accepted).toHaveBeenCalledWith(response.runId);
+      expect(deltas).toHaveLength(3);
+      expect(activity).toEqual(["start", "result"]);
+      expect(speech).toEqual(["It's sunny. Twenty degrees."]);
+      expect(client.parseResponse(response.text!)).toEqual({
+        tts: "It's sunny. Twenty degrees.",
+        full: "Full forecast follows.",
+      });
+    });
+
+    it("stops listening to the abort signal once the run is over", async () => {
+      const { client } = await start();
+      await client.connect();
+      const { signal } = new AbortController();
+      const removeListener = vi.spyOn(signal, "removeEventListener");
+
+      await client.sendToAgent("first", { signal });
+      await client.sendToAgent("second", { signal });
+
+      expect(removeListener).toHaveBeenCalledTimes(2);
+      expect(removeListener).toHaveBeenCalledWith("abort", expect.any(Function));
+    });
+
+    it("echoes unscripted messages", async () => {
+      const { client } = await start();
+      await client.connect();
+
+      const response = await client.sendToAgent("hello there");
+
+      expect(response.status).toBe("completed");
+      expect(client.parseResponse(response.text!).tts).toBe("You said: hello there.");
+    });
+  });
+
+  describe("injected errors", () => {
+    it("rejects when the gateway refuses the agent request", async () => {
+      const { client } = await start({
+        replies: [{ match: "boom", error: { code: "UNAVAILABLE", message: "Agent is busy" } }],
+      });
+      await client.connect();
+
+      await expect(client.sendToAgent("boom")).rejects.toThrow("Agent is busy");
+    });
+
+    it("reports a run that ends in an error", async () => {
+      const { client } = await start({
+        replies: [
+          {
+            steps: [
+              assistant("Working on it"),
+              { stream: "lifecycle", data: { phase: "error", error: "Model overloaded" } },
+            ],
+          },
+        ],
+      });
+      await client.connect();
+
+      const response = await client.sendToAgent("anything");
+
+      expect(response.status).toBe("failed");
+      expect(response.text).toBe("Model overloaded");
+    });
+
+    it("fails a method call with the gateway's error message", async () => {
+      const { client } = await start({
+        methods: { "agents.list": { error: { code: "FORBIDDEN", message: "Not allowed" } } },
+      });
+      await client.connect();
+
+      await expect(client.listAgents()).rejects.toThrow("Not allowed");
+    });
+  });
+
+  describe("event sequence", () => {
+    it("ignores duplicate events", async () => {
+      const { client } = await start({
+        replies: [
+          {
+            steps: [assistant("One. "), { duplicate: true }, assistant("Two."), { duplicate: true }, end],
+          },
+        ],
+      });
+      await client.connect();
+
+      const response = await client.sendToAgent("count");
+
+      expect(response.text).toBe("One. Two.");
+    });
+
+    it("accepts events without seq or ts", async () => {
+      const omit = ["seq", "ts"];
+      const { client } = await start({
+        replies: [
+          {
+            steps: [
+              { ...assistant("[TTS]No numbers.[/TTS]"), omit },
+              { ...end, omit },
+            ],
+          },
+        ],
+      });
+      await client.connect();
+
+      const speech: string[] = [];
+      const response = await client.sendToAgent("unnumbered", {
+        onSpeech: (sentence) => speech.push(sentence),
+      });
+
+      expect(response.status).toBe("completed");
+      expect(response.text).toBe("[TTS]No numbers.[/TTS]");
+      expect(speech).toEqual(["No numbers."]);
+    });
+
+    it("recovers the reply from history when events were skipped", async () => {
+      const { client } = await start({
+        replies: [
+          {
+            steps: [assistant("Lost "), { skipSeq: 1 }, assistant("in "), assistant("transit."), end],
+          },
+        ],
+      });
+      await client.connect();
+
+      const response = await client.sendToAgent("gap");
+
+      // The gap marks the run stale, so its text is taken from the session history
+      expect(response.status).toBe("completed");
+      expect(response.text).toBe("Lost in transit.");
+    });
+  });
+
+  describe("disconnect and resume", () => {
+    it("reconnects and keeps streaming a run that outlived the drop", { timeout: 10000 }, async () => {
+      const { client } = await start({
+        replies: [
+          {
+            steps: [
+              assistant("Before the drop. "),
+              { disconnect: true },
+              // Long enough for the client to be back
+              { delayMs: 2500 },
+              assistant("After the drop."),
+              end,
+            ],
+          },
+        ],
+      });
+      await client.connect();
+
+      const response = await client.sendToAgent("stay with me");
+
+      expect(states).toContain("reconnecting");
+      expect(client.state).toBe("connected");
+      expect(response.status).toBe("completed");
+      expect(response.text).toBe("Before the drop. After the drop.");
+    });
+
+    it("catches up on a run that finished while disconnected", async () => {
+      const { client } = await start({
+        replies: [
+          {
+            steps: [
+              assistant("Started. "),
+              { disconnect: true },
+              assistant("Finished while you were away."),
+              end,
+            ],
+          },
+        ],
+      });
+      await client.connect();
+
+      const response = await client.sendToAgent("quick one");
+
+      expect(response.status).toBe("completed");
+      expect(response.text).toBe("Started. Finished while you were away.");
+    });
+
+    it("re-sends a request that was in flight when the socket dropped", async () => {
+      const { gateway, client } = await start({
+        methods: { "sessions.list": { delayMs: 300 } },
+      });
+      await client.connect();
+
+      const sessions = client.listSessions();
+      await sleep(50);
+      gateway.disconnectAll();
+
+      await expect(sessions).resolves.toEqual([
+        expect.objectContaining({ key: "agent:main:main" }),
+      ]);
+    });
+  });
+});
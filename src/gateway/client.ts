@@ -8,11 +8,131 @@ import {
   GatewayConnectionState,
   AgentResponse,
   AgentEvent,
+  AgentActivity,
+  AgentRequest,
+  ChatAbortRequest,
+  ConnectRequest,
+  GatewayMethod,
+  GatewayParams,
+  GatewayResult,
+  GatewaySessionSelection,
+  HistoryEntry,
+  AgentSummary,
+  SessionSummary,
+  SessionsListRequest,
+  SendToAgentOptions,
 } from "./types";
+import {
+  GATEWAY_PROTOCOL_VERSION,
+  validateAgentEvent,
+  validateResult,
+} from "./validate";
+import {
+  DEFAULT_SPEECH_POLICY,
+  SpeechPolicy,
+  SpeechStream,
+  extractSpeech,
+} from "./speechStream";
+import { normalizeForSpeech } from "./speechText";
+import { applyResponseFormat, DEFAULT_RESPONSE_FORMAT } from "./responseFormat";
 
 type MessageHandler = (message: GatewayMessage) => void;
 type ConnectionStateHandler = (state: GatewayConnectionState) => void;
 
+interface PendingRequest {
+  method: string;
+  // Serialized request, re-sent if the socket drops before the response arrives
+  frame: string;
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+}
+
+// Bookkeeping for an in-flight sendToAgent run, so it can be resumed after a reconnect
+interface ActiveRun {
+  // Highest AgentEvent.seq seen for this run
+  lastSeq: number;
+  // Some events may have been missed (sequence gap or dropped connection)
+  stale: boolean;
+  // Finish the run from the session history when its end was missed
+  recover: (status: "completed" | "failed") => void;
+}
+
+/**
+ * Unique key so the gateway can drop duplicate deliveries of the same user turn
+ */
+export const createIdempotencyKey = (): string => {
+  return `liveavatar-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+};
+
+/**
+ * Pull plain text out of a chat history message (string or content blocks)
+ */
+const messageText = (content: unknown): string => {
+  if (typeof content === "string") return content;
+  if (Array.isArray(content)) {
+    return content
+      .map((block) =>
+        block && typeof block === "object" && (block as { type?: string }).type === "text"
+          ? String((block as { text?: unknown }).text ?? "")
+          : ""
+      )
+      .join("");
+  }
+  return "";
+};
+
+// Number of prior messages shown when the chat opens
+const HISTORY_LIMIT = 50;
+
+// Instructions older clients appended to the user's message (see applyResponseFormat)
+const INLINE_RESPONSE_FORMAT_PATTERN = /\s*\[RESPONSE FORMAT:[\s\S]*\]\s*$/;
+// The spoken summary is only meant for the avatar
+const TTS_BLOCK_PATTERN = /\[TTS\][\s\S]*?\[\/TTS\]\n?/i;
+
+/**
+ * Map tool and reasoning stream events onto typed activity events
+ */
+const toAgentActivity = (event: AgentEvent): AgentActivity | null => {
+  const data = event.data || {};
+
+  if (event.stream === "tool") {
+    const phase = data.phase;
+    if (phase !== "start" && phase !== "update" && phase !== "result") {
+      return null;
+    }
+    const name = typeof data.name === "string" ? data.name : "tool";
+    return {
+      kind: "tool",
+      toolCallId: typeof data.toolCallId === "string" ? data.toolCallId : name,
+      name,
+      phase,
+      args: data.args,
+      result: data.result ?? data.partialResult,
+      isError: data.isError === true,
+      ts: event.ts ?? Date.now(),
+    };
+  }
+
+  // Use delta (incremental) not text (cumulative), same as the assistant stream
+  if (event.stream === "thinking" || event.stream === "reasoning") {
+    if (!data.delta) return null;
+    return { kind: "thinking", delta: data.delta, ts: event.ts ?? Date.now() };
+  }
+
+  return null;
+};
+
+/**
+ * The request never made it to the gateway (or its answer never made it
+ * back) because the connection was down - worth sending again later
+ */
+export class GatewayConnectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GatewayConnectionError";
+  }
+}
+
 export class OpenClawGatewayClient {
   private ws: WebSocket | null = null;
   private url: string;
@@ -20,14 +140,29 @@ export class OpenClawGatewayClient {
   private reconnectAttempts = 0;
   private maxReconnectAttempts = 5;
   private reconnectDelay = 1000;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private connectPromise: Promise<void> | null = null;
+  private manualClose = false;
+  private hasConnected = false;
   private messageId = 0;
-  private pendingRequests = new Map<
-    string,
-    { resolve: (value: unknown) => void; reject: (error: Error) => void }
-  >();
+  private pendingRequests = new Map<string, PendingRequest>();
+  private activeRuns = new Map<string, ActiveRun>();
   private connectionState: GatewayConnectionState = "disconnected";
   private conversationId: string | null = null;
-  private sessionKey: string | null = null;
+
+  // Gateway defaults from the handshake snapshot
+  private defaultSessionKey: string | null = null;
+  private defaultAgentId: string | null = null;
+  // Agent/session picked by the user, takes precedence over the defaults
+  private selection: GatewaySessionSelection | null = null;
+
+  // Per-connection event sequence and last known gateway state version,
+  // used to notice events that never reached us
+  private lastEventSeq: number | null = null;
+  private stateVersion: number | null = null;
+
+  // Conversation so far, fetched once after the first handshake
+  private historyPromise: Promise<HistoryEntry[]> | null = null;
 
   // Event handlers
   private onMessageHandlers: MessageHandler[] = [];
@@ -42,15 +177,52 @@ export class OpenClawGatewayClient {
     return this.connectionState;
   }
 
+  /**
+   * Agent and session that turns are currently sent to
+   */
+  get session(): GatewaySessionSelection {
+    return {
+      agentId: this.selection?.agentId ?? this.defaultAgentId,
+      sessionKey: this.sessionKey,
+    };
+  }
+
+  private get sessionKey(): string | null {
+    if (this.selection?.sessionKey) return this.selection.sessionKey;
+    // An agent's own main session
+    if (this.selection?.agentId) return `agent:${this.selection.agentId}:main`;
+    return this.defaultSessionKey;
+  }
+
+  /**
+   * Current reconnect attempt (0 when not reconnecting)
+   */
+  get reconnectAttempt(): number {
+    return this.reconnectAttempts;
+  }
+
   private setConnectionState(state: GatewayConnectionState) {
     this.connectionState = state;
     this.onConnectionStateHandlers.forEach((handler) => handler(state));
   }
 
   async connect(): Promise<void> {
-    return new Promise((resolve, reject) => {
+    // Share an attempt that is already under way
+    if (
+      this.connectPromise &&
+      this.ws &&
+      (this.ws.readyState === WebSocket.CONNECTING ||
+        this.ws.readyState === WebSocket.OPEN)
+    ) {
+      return this.connectPromise;
+    }
+
+    this.manualClose = false;
+    this.connectPromise = new Promise((resolve, reject) => {
       try {
-        this.setConnectionState("connecting");
+        this.setConnectionState(
+          this.reconnectAttempts > 0 ? "reconnecting" : "connecting"
+        );
 
         // Build URL with token if provided
         let wsUrl = this.url;
@@ -59,14 +231,29 @@ export class OpenClawGatewayClient {
           wsUrl = `${wsUrl}${separator}token=${encodeURIComponent(this.token)}`;
         }
 
-        this.ws = new WebSocket(wsUrl);
+        const ws = new WebSocket(wsUrl);
+        this.ws = ws;
+        this.lastEventSeq = null;
 
-        this.ws.onopen = () => {
+        ws.onopen = () => {
           console.log("[Gateway] WebSocket connected");
-          this.reconnectAttempts = 0;
+          const isReconnect = this.hasConnected;
+          const previousStateVersion = this.stateVersion;
           this.performHandshake()
-            .then(() => {
+            .then((snapshotStateVersion) => {
+              this.reconnectAttempts = 0;
+              this.hasConnected = true;
+              if (!isReconnect) {
+                this.historyPromise = this.loadHistory();
+              }
               this.setConnectionState("connected");
+              if (isReconnect) {
+                // Only resync runs if the gateway moved on while we were away
+                const missedState =
+                  snapshotStateVersion === null ||
+                  snapshotStateVersion !== previousStateVersion;
+                this.resumeAfterReconnect(missedState);
+              }
               resolve();
             })
             .catch((err) => {
@@ -75,19 +262,21 @@ export class OpenClawGatewayClient {
             });
         };
 
-        this.ws.onclose = (event) => {
+        ws.onclose = (event) => {
+          // A newer socket has already replaced this one
+          if (this.ws !== ws) return;
           console.log("[Gateway] WebSocket closed:", event.code, event.reason);
-          this.setConnectionState("disconnected");
-          this.handleReconnect();
+          this.ws = null;
+          this.handleConnectionLost();
         };
 
-        this.ws.onerror = (error) => {
+        ws.onerror = (error) => {
           console.error("[Gateway] WebSocket error:", error);
           this.setConnectionState("error");
           reject(new Error("WebSocket connection failed"));
         };
 
-        this.ws.onmessage = (event) => {
+        ws.onmessage = (event) => {
           this.handleMessage(event.data);
         };
       } catch (error) {
@@ -95,19 +284,35 @@ export class OpenClawGatewayClient {
         reject(error);
       }
     });
+    return this.connectPromise;
   }
 
-  private async performHandshake(): Promise<void> {
+  /**
+   * Start over after reconnection gave up (or failed outright)
+   */
+  async retry(): Promise<void> {
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    return this.connect();
+  }
+
+  /**
+   * Returns the gateway state version from the snapshot, if it sent one
+   */
+  private async performHandshake(): Promise<number | null> {
     // Send connect request matching OpenClaw protocol schema
     // Protocol version 3 is required by OpenClaw Gateway 2026.1.30
-    const connectRequest: Record<string, unknown> = {
-      minProtocol: 3,
-      maxProtocol: 3,
+    const connectRequest: ConnectRequest = {
+      minProtocol: GATEWAY_PROTOCOL_VERSION,
+      maxProtocol: GATEWAY_PROTOCOL_VERSION,
       client: {
-        id: "webchat" as const,
+        id: "webchat",
         version: "0.1.0",
         platform: "web",
-        mode: "webchat" as const,
+        mode: "webchat",
         displayName: "OpenClaw LiveAvatar",
       },
     };
@@ -117,23 +322,24 @@ export class OpenClawGatewayClient {
       connectRequest.auth = { token: this.token };
     }
 
-    const response = (await this.sendRequest("connect", connectRequest)) as {
-      type?: string;
-      snapshot?: {
-        sessionDefaults?: {
-          mainSessionKey?: string;
-          defaultAgentId?: string;
-        };
-      };
-    };
+    const response = await this.request("connect", connectRequest);
 
     // Capture session key for agent event routing
-    if (response.snapshot?.sessionDefaults?.mainSessionKey) {
-      this.sessionKey = response.snapshot.sessionDefaults.mainSessionKey;
-      console.log("[Gateway] Session key captured:", this.sessionKey);
+    const defaults = response.snapshot?.sessionDefaults;
+    if (defaults?.mainSessionKey) {
+      this.defaultSessionKey = defaults.mainSessionKey;
+      console.log("[Gateway] Session key captured:", this.defaultSessionKey);
+    }
+    if (defaults?.defaultAgentId) {
+      this.defaultAgentId = defaults.defaultAgentId;
     }
 
     console.log("[Gateway] Handshake complete:", response);
+
+    const stateVersion = response.snapshot?.stateVersion;
+    if (stateVersion === undefined) return null;
+    this.stateVersion = stateVersion;
+    return stateVersion;
   }
 
   private handleMessage(data: string) {
@@ -169,9 +375,17 @@ export class OpenClawGatewayClient {
     // Log all events with full payload for debugging
     console.log("[Gateway] Event:", event.event, JSON.stringify(event.payload));
 
+    this.trackEventSequence(event);
+
     // Handle agent events - these are streamed events with runId, stream, data
     if (event.event === "agent") {
-      const payload = event.payload as AgentEvent;
+      let payload: AgentEvent;
+      try {
+        payload = validateAgentEvent(event.payload);
+      } catch (err) {
+        console.error("[Gateway] Dropping malformed agent event:", err);
+        return;
+      }
       console.log("[Gateway] Agent event received:", payload.runId, payload.stream, payload.data);
       this.onAgentEventHandlers.forEach((handler) => handler(payload));
     }
@@ -191,9 +405,56 @@ export class OpenClawGatewayClient {
     }
   }
 
+  /**
+   * Detect gaps in the per-connection event sequence
+   */
+  private trackEventSequence(event: GatewayEvent) {
+    if (event.seq !== undefined) {
+      if (this.lastEventSeq !== null && event.seq > this.lastEventSeq + 1) {
+        console.warn(
+          `[Gateway] Missed events (seq ${this.lastEventSeq} -> ${event.seq})`
+        );
+        this.activeRuns.forEach((run) => {
+          run.stale = true;
+        });
+      }
+      this.lastEventSeq = event.seq;
+    }
+    if (event.stateVersion !== undefined) {
+      this.stateVersion = event.stateVersion;
+    }
+  }
+
+  private handleConnectionLost() {
+    // The handshake itself can't be resumed on a new socket
+    this.pendingRequests.forEach((pending, id) => {
+      if (pending.method === "connect") {
+        this.pendingRequests.delete(id);
+        pending.reject(new GatewayConnectionError("WebSocket closed during handshake"));
+      }
+    });
+
+    if (this.manualClose) {
+      this.setConnectionState("disconnected");
+      return;
+    }
+    // Never got through in the first place - nothing to resume, so don't
+    // keep retrying (the app falls back to demo mode)
+    if (!this.hasConnected) {
+      this.reconnectAttempts = 0;
+      this.failPendingRequests(new GatewayConnectionError("Gateway connection failed"));
+      this.setConnectionState("disconnected");
+      return;
+    }
+    this.handleReconnect();
+  }
+
   private handleReconnect() {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.log("[Gateway] Max reconnect attempts reached");
+      this.reconnectAttempts = 0;
+      this.failPendingRequests(new GatewayConnectionError("Gateway connection lost"));
+      this.setConnectionState("disconnected");
       return;
     }
 
@@ -202,21 +463,164 @@ export class OpenClawGatewayClient {
     console.log(
       `[Gateway] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})`
     );
+    this.setConnectionState("reconnecting");
 
-    setTimeout(() => {
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
       this.connect().catch((err) => {
         console.error("[Gateway] Reconnect failed:", err);
       });
     }, delay);
   }
 
+  /**
+   * Re-send in-flight requests and catch up on runs that were streaming when the socket dropped
+   */
+  private resumeAfterReconnect(missedState: boolean) {
+    this.pendingRequests.forEach((pending) => {
+      console.log("[Gateway] Re-sending request after reconnect:", pending.method);
+      this.ws?.send(pending.frame);
+    });
+
+    if (!missedState) return;
+
+    this.activeRuns.forEach((run, runId) => {
+      run.stale = true;
+      // Ask whether the run finished while we were away - if it is still
+      // going, its remaining events arrive on the new connection
+      this.request("agent.wait", { runId, timeoutMs: 0 })
+        .then(({ status }) => {
+          if (status === "ok") {
+            run.recover("completed");
+          } else if (status === "error") {
+            run.recover("failed");
+          }
+        })
+        .catch((err) => {
+          console.error("[Gateway] Failed to resume run:", runId, err);
+        });
+    });
+  }
+
+  private failPendingRequests(error: Error) {
+    const pending = Array.from(this.pendingRequests.values());
+    this.pendingRequests.clear();
+    pending.forEach((request) => request.reject(error));
+  }
+
+  /**
+   * Latest assistant reply in the session history, used when streamed deltas were missed
+   */
+  private async fetchLatestAssistantText(): Promise<string | null> {
+    if (!this.sessionKey) return null;
+    const { messages } = await this.request("chat.history", {
+      sessionKey: this.sessionKey,
+      limit: 5,
+    });
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].role === "assistant") {
+        return messageText(messages[i].content) || null;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Agents configured on the gateway
+   */
+  async listAgents(): Promise<AgentSummary[]> {
+    const { agents } = await this.request("agents.list", undefined);
+    return agents;
+  }
+
+  /**
+   * Sessions on the gateway, optionally only those of one agent
+   */
+  async listSessions(agentId?: string): Promise<SessionSummary[]> {
+    const params: SessionsListRequest = { limit: 50 };
+    if (agentId) {
+      params.agentId = agentId;
+    }
+    const { sessions } = await this.request("sessions.list", params);
+    return sessions;
+  }
+
+  /**
+   * Send future turns to another agent or session, null returns to the
+   * gateway defaults. Reloads the history for the new session.
+   */
+  selectSession(selection: GatewaySessionSelection | null) {
+    const next =
+      selection && (selection.agentId || selection.sessionKey) ? selection : null;
+    if (
+      next?.agentId === this.selection?.agentId &&
+      next?.sessionKey === this.selection?.sessionKey
+    ) {
+      return;
+    }
+    this.selection = next;
+    this.conversationId = null;
+    console.log("[Gateway] Using session:", this.session);
+    this.historyPromise =
+      this.connectionState === "connected" ? this.loadHistory() : null;
+  }
+
+  /**
+   * Recent messages of the session, loaded right after connecting so a thread
+   * started in another OpenClaw channel shows up in the chat
+   */
+  getHistory(): Promise<HistoryEntry[]> {
+    return this.historyPromise || Promise.resolve([]);
+  }
+
+  private async loadHistory(): Promise<HistoryEntry[]> {
+    if (!this.sessionKey) return [];
+    try {
+      const { messages } = await this.request("chat.history", {
+        sessionKey: this.sessionKey,
+        limit: HISTORY_LIMIT,
+      });
+
+      const entries: HistoryEntry[] = [];
+      for (const message of messages) {
+        if (message.role !== "user" && message.role !== "assistant") continue;
+        let text = messageText(message.content);
+        text =
+          message.role === "user"
+            ? text.replace(INLINE_RESPONSE_FORMAT_PATTERN, "")
+            : text.replace(TTS_BLOCK_PATTERN, "");
+        text = text.trim();
+        if (!text) continue;
+        entries.push({ role: message.role, text, timestamp: message.timestamp });
+      }
+
+      console.log("[Gateway] Loaded", entries.length, "history messages");
+      return entries;
+    } catch (err) {
+      console.error("[Gateway] Failed to load history:", err);
+      return [];
+    }
+  }
+
+  /**
+   * Call a gateway method and validate the response payload against its expected shape
+   */
+  private async request<M extends GatewayMethod>(
+    method: M,
+    params: GatewayParams<M>
+  ): Promise<GatewayResult<M>> {
+    const payload = await this.sendRequest(method, params);
+    return validateResult(method, payload);
+  }
+
   private async sendRequest(
     method: string,
-    params?: Record<string, unknown>
+    params?: object
   ): Promise<unknown> {
     return new Promise((resolve, reject) => {
       if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
-        reject(new Error("WebSocket not connected"));
+        reject(new GatewayConnectionError("WebSocket not connected"));
         return;
       }
 
@@ -227,8 +631,9 @@ export class OpenClawGatewayClient {
         method,
         params,
       };
+      const frame = JSON.stringify(request);
 
-      this.pendingRequests.set(id, { resolve, reject });
+      this.pendingRequests.set(id, { method, frame, resolve, reject });
 
       // Set timeout for request
       setTimeout(() => {
@@ -238,30 +643,47 @@ export class OpenClawGatewayClient {
         }
       }, 30000);
 
-      this.ws.send(JSON.stringify(request));
+      this.ws.send(frame);
     });
   }
 
   /**
    * Send a message to the OpenClaw agent and get a response
-   * Wraps user message with instructions to return structured response with TTS summary
+   * Asks for a structured response with a TTS summary according to options.responseFormat
+   * When options.onSpeech is set, speakable sentences are emitted as the reply streams in
    */
-  async sendToAgent(text: string): Promise<AgentResponse> {
-    // Generate a unique idempotency key for this request
-    const idempotencyKey = `liveavatar-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+  async sendToAgent(
+    text: string,
+    options: SendToAgentOptions = {}
+  ): Promise<AgentResponse> {
+    if (options.signal?.aborted) {
+      return { runId: "", status: "cancelled" };
+    }
 
-    // Wrap user message with instructions for structured response
-    const wrappedMessage = `${text}
+    // Generate a unique idempotency key for this request, unless the caller
+    // is re-sending a turn it already assigned one to
+    const idempotencyKey = options.idempotencyKey || createIdempotencyKey();
 
-[RESPONSE FORMAT: Start with a 3-5 sentence spoken summary wrapped in [TTS]...[/TTS] tags that captures the key points of your response, then provide your full detailed response. The TTS summary should be informative and conversational, giving the user the gist while they read the full text. Example:
-[TTS]Here's what I found. The main issue is X, which can be solved by Y. I'd recommend starting with Z approach because it's the most straightforward.[/TTS]
-Full detailed response here with all the specifics...]`;
+    // Add the response format instructions, as a system hint or inline
+    const { message, extraSystemPrompt } = applyResponseFormat(
+      text,
+      options.responseFormat ?? DEFAULT_RESPONSE_FORMAT
+    );
 
-    const params: Record<string, unknown> = {
-      message: wrappedMessage,
+    const params: AgentRequest = {
+      message,
       idempotencyKey,
     };
 
+    if (extraSystemPrompt) {
+      params.extraSystemPrompt = extraSystemPrompt;
+    }
+
+    // Only route explicitly, otherwise the gateway picks its default agent
+    if (this.selection?.agentId) {
+      params.agentId = this.selection.agentId;
+    }
+
     // Include session key for agent event routing
     if (this.sessionKey) {
       params.sessionKey = this.sessionKey;
@@ -283,16 +705,81 @@ Full detailed response here with all the specifics...]`;
     // Buffer events that arrive before we have runId
     const bufferedEvents: AgentEvent[] = [];
 
+    // Sentence extraction for streaming speech
+    const speechStream = options.onSpeech
+      ? new SpeechStream(options.speechPolicy)
+      : null;
+    const emitSpeech = (chunks: string[]) => {
+      chunks.forEach((chunk) => options.onSpeech?.(chunk));
+    };
+
     const responsePromise = new Promise<AgentResponse>((resolve, reject) => {
       resolveResponse = resolve;
       rejectResponse = reject;
     });
 
     const timeout = setTimeout(() => {
-      this.offAgentEvent(handler);
+      completed = true;
+      cleanup();
       rejectResponse(new Error("Agent response timeout"));
     }, 60000);
 
+    // Stop listening for the run's events, and for an abort of the caller's
+    // signal, which may outlive the run
+    const cleanup = () => {
+      clearTimeout(timeout);
+      this.offAgentEvent(handler);
+      options.signal?.removeEventListener("abort", handleAbort);
+      if (runId) this.activeRuns.delete(runId);
+    };
+
+    const finish = (response: AgentResponse) => {
+      if (completed) return;
+      completed = true;
+      cleanup();
+      resolveResponse(response);
+    };
+
+    // Complete from the session history when some of the stream never reached us
+    let recovering = false;
+    const recover = (status: "completed" | "failed") => {
+      if (completed || recovering) return;
+      recovering = true;
+      console.log("[Gateway] Recovering run from history:", runId);
+      this.fetchLatestAssistantText()
+        .catch((err) => {
+          console.error("[Gateway] Failed to fetch history:", err);
+          return null;
+        })
+        .then((historyText) => {
+          finish({
+            runId: runId!,
+            status,
+            text:
+              status === "failed"
+                ? "Agent encountered an error"
+                : historyText || collectedText || undefined,
+          });
+        });
+    };
+
+    // Cancel the run when the caller aborts (e.g. the user barged in)
+    const handleAbort = () => {
+      if (completed) return;
+      // Without a runId yet, the abort is sent once the request is accepted
+      if (runId) {
+        this.abortRun(runId).catch((err) => {
+          console.error("[Gateway] Failed to abort run:", err);
+        });
+      }
+      finish({
+        runId: runId || "",
+        status: "cancelled",
+        text: collectedText || undefined,
+      });
+    };
+    options.signal?.addEventListener("abort", handleAbort, { once: true });
+
     // Track processed event sequences to avoid duplicates
     const processedSeqs = new Set<number>();
 
@@ -307,6 +794,18 @@ Full detailed response here with all the specifics...]`;
         processedSeqs.add(event.seq);
       }
 
+      // Notice per-run sequence gaps
+      const run = runId ? this.activeRuns.get(runId) : undefined;
+      if (run && event.seq !== undefined) {
+        if (run.lastSeq >= 0 && event.seq > run.lastSeq + 1) {
+          console.warn(
+            `[Gateway] Missed agent events for ${runId} (seq ${run.lastSeq} -> ${event.seq})`
+          );
+          run.stale = true;
+        }
+        run.lastSeq = Math.max(run.lastSeq, event.seq);
+      }
+
       console.log("[Gateway] Agent event:", event.stream, event.seq, event.data?.delta?.substring(0, 20));
 
       // Collect text from assistant stream - use delta (incremental) not text (cumulative)
@@ -314,27 +813,40 @@ Full detailed response here with all the specifics...]`;
         // Only use delta for incremental text
         if (event.data?.delta) {
           collectedText += event.data.delta;
+          options.onDelta?.(event.data.delta);
+          if (speechStream) {
+            emitSpeech(speechStream.push(event.data.delta));
+          }
+        }
+      }
+
+      // Surface tool calls and reasoning to the caller
+      if (options.onActivity) {
+        const activity = toAgentActivity(event);
+        if (activity) {
+          options.onActivity(activity);
         }
       }
 
       // Check for lifecycle end
       if (event.stream === "lifecycle" && event.data?.phase === "end") {
-        completed = true;
-        clearTimeout(timeout);
-        this.offAgentEvent(handler);
-        resolveResponse({
-          runId: runId!,
-          status: "completed",
-          text: collectedText || undefined,
-        });
+        if (speechStream) {
+          emitSpeech(speechStream.finish());
+        }
+        if (run?.stale) {
+          recover("completed");
+        } else {
+          finish({
+            runId: runId!,
+            status: "completed",
+            text: collectedText || undefined,
+          });
+        }
       }
 
       // Check for lifecycle error
       if (event.stream === "lifecycle" && event.data?.phase === "error") {
-        completed = true;
-        clearTimeout(timeout);
-        this.offAgentEvent(handler);
-        resolveResponse({
+        finish({
           runId: runId!,
           status: "failed",
           text: event.data?.error || "Agent encountered an error",
@@ -361,22 +873,30 @@ Full detailed response here with all the specifics...]`;
     this.onAgentEvent(handler);
 
     try {
-      const response = (await this.sendRequest("agent", params)) as {
-        runId: string;
-        status: string;
-        conversationId?: string;
-      };
+      const response = await this.request("agent", params);
 
       console.log("[Gateway] Agent request accepted:", response);
 
       // Now set runId
       runId = response.runId;
 
+      // Aborted while the request was in flight
+      if (completed) {
+        this.abortRun(runId).catch((err) => {
+          console.error("[Gateway] Failed to abort run:", err);
+        });
+        return responsePromise;
+      }
+
       // Store conversation ID for future messages
       if (response.conversationId) {
         this.conversationId = response.conversationId;
       }
 
+      // Track the run so it can be resumed if the connection drops
+      this.activeRuns.set(runId, { lastSeq: -1, stale: false, recover });
+      options.onAccepted?.(runId);
+
       // Process any buffered events that match this runId
       for (const event of bufferedEvents) {
         if (event.runId === runId) {
@@ -384,19 +904,32 @@ Full detailed response here with all the specifics...]`;
         }
       }
     } catch (error) {
-      clearTimeout(timeout);
-      this.offAgentEvent(handler);
+      cleanup();
+      // Already resolved as cancelled
+      if (completed) return responsePromise;
       throw error;
     }
 
     return responsePromise;
   }
 
+  /**
+   * Ask the gateway to stop a running agent turn
+   */
+  async abortRun(runId: string): Promise<void> {
+    const params: ChatAbortRequest = { runId };
+    if (this.sessionKey) {
+      params.sessionKey = this.sessionKey;
+    }
+    console.log("[Gateway] Aborting run:", runId);
+    await this.request("chat.abort", params);
+  }
+
   /**
    * Get current connection status
    */
-  async getStatus(): Promise<unknown> {
-    return this.sendRequest("status");
+  async getStatus(): Promise<GatewayResult<"status">> {
+    return this.request("status", undefined);
   }
 
   /**
@@ -404,35 +937,36 @@ Full detailed response here with all the specifics...]`;
    * Expected format:
    * [TTS]Short summary for speech[/TTS]
    * Full detailed response...
+   *
+   * The spoken part depends on the speech policy, see SpeechPolicy
    */
-  parseResponse(text: string): { tts: string; full: string } {
+  parseResponse(
+    text: string,
+    policy: SpeechPolicy = DEFAULT_SPEECH_POLICY
+  ): { tts: string; full: string } {
     // Look for [TTS]...[/TTS] block
     const ttsMatch = text.match(/\[TTS\]([\s\S]*?)\[\/TTS\]/i);
+    // Remove the entire TTS block from display message
+    const fullMessage = ttsMatch
+      ? text.replace(/\[TTS\][\s\S]*?\[\/TTS\]\n?/i, "").trim() || text
+      : text;
+
+    if (policy !== "summary") {
+      return { tts: extractSpeech(fullMessage, policy), full: fullMessage };
+    }
 
     if (ttsMatch) {
-      const ttsSummary = ttsMatch[1].trim();
-      // Remove the entire TTS block from display message
-      const fullMessage = text.replace(/\[TTS\][\s\S]*?\[\/TTS\]\n?/i, "").trim();
+      const ttsSummary = normalizeForSpeech(ttsMatch[1]);
       console.log("[Gateway] Parsed TTS summary:", ttsSummary.length, "chars");
-      return { tts: ttsSummary, full: fullMessage || text };
+      return { tts: ttsSummary, full: fullMessage };
     }
 
-    // Fallback: extract first 3-5 sentences as TTS
+    // Fallback: extract the first sentences as TTS, same as streamed speech
     console.log("[Gateway] No [TTS] block found, extracting first sentences");
-    const sentences = text.match(/[^.!?]+[.!?]+/g) || [];
-
-    let tts = "";
-    const maxSentences = 5;
-    const maxChars = 400; // Allow longer TTS for more informative summary
-
-    for (let i = 0; i < Math.min(maxSentences, sentences.length); i++) {
-      const sentence = sentences[i].trim();
-      if (tts.length + sentence.length > maxChars && tts.length > 0) break;
-      tts += (tts ? " " : "") + sentence;
-    }
+    const tts = extractSpeech(text);
 
     return {
-      tts: tts || this.truncateToSentences(text, 300),
+      tts: tts || this.truncateToSentences(normalizeForSpeech(text), 300),
       full: text
     };
   }
@@ -467,10 +1001,17 @@ Full detailed response here with all the specifics...]`;
   }
 
   disconnect() {
+    this.manualClose = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
     if (this.ws) {
       this.ws.close();
       this.ws = null;
     }
+    this.failPendingRequests(new GatewayConnectionError("Gateway disconnected"));
     this.setConnectionState("disconnected");
   }
 
@@ -0,0 +1,61 @@
+// Response format instructions sent with each agent turn
+// Asks the agent to open its reply with a short [TTS] summary for the avatar to speak
+
+export interface ResponseFormatConfig {
+  // Instruction text, {min} and {max} are replaced with summarySentences
+  template: string;
+  // Length of the spoken summary, in sentences
+  summarySentences: { min: number; max: number };
+  // "system" sends the instructions as an extra system prompt so they stay
+  // out of the conversation history, "inline" appends them to the user's
+  // message for gateways that ignore system hints
+  delivery: "system" | "inline";
+}
+
+// false sends no instructions - the first sentences of the reply are spoken instead
+export type ResponseFormat = ResponseFormatConfig | false;
+
+export const DEFAULT_RESPONSE_FORMAT_TEMPLATE = `Start with a {min}-{max} sentence spoken summary wrapped in [TTS]...[/TTS] tags that captures the key points of your response, then provide your full detailed response. The TTS summary should be informative and conversational, giving the user the gist while they read the full text. Example:
+[TTS]Here's what I found. The main issue is X, which can be solved by Y. I'd recommend starting with Z approach because it's the most straightforward.[/TTS]
+Full detailed response here with all the specifics...`;
+
+export const DEFAULT_RESPONSE_FORMAT: ResponseFormatConfig = {
+  template: DEFAULT_RESPONSE_FORMAT_TEMPLATE,
+  summarySentences: { min: 3, max: 5 },
+  delivery: "system",
+};
+
+/**
+ * Fill in the template placeholders
+ */
+export function renderResponseFormat(config: ResponseFormatConfig): string {
+  return config.template
+    .replace(/\{min\}/g, String(config.summarySentences.min))
+    .replace(/\{max\}/g, String(config.summarySentences.max))
+    .trim();
+}
+
+/**
+ * Build the agent message text and optional system hint for a user turn
+ */
+export function applyResponseFormat(
+  text: string,
+  format: ResponseFormat
+): { message: string; extraSystemPrompt?: string } {
+  if (!format) {
+    return { message: text };
+  }
+
+  const instructions = renderResponseFormat(format);
+  if (!instructions) {
+    return { message: text };
+  }
+
+  if (format.delivery === "system") {
+    return { message: text, extraSystemPrompt: instructions };
+  }
+
+  return {
+    message: `${text}\n\n[RESPONSE FORMAT: ${instructions}]`,
+  };
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import { SpeechPolicy, SpeechStream, extractSpeech } from "./speechStream";
+
+// Feeds the deltas one by one and returns what was ready after each, plus
+// what came out at the end
+const stream = (deltas: string[], policy?: SpeechPolicy) => {
+  const speech = new SpeechStream(policy);
+  const pushed = deltas.map((delta) => speech.push(delta));
+  return { pushed, finished: speech.finish() };
+};
+
+const spoken = ({ pushed, finished }: ReturnType<typeof stream>) => [
+  ...pushed.flat(),
+  ...finished,
+];
+
+describe("SpeechStream", () => {
+  describe("summary policy", () => {
+    it("speaks a block at the start as soon as it closes", () => {
+      const result = stream(["[TTS]Here's the gist. ", "It works.[/TTS]\n", "The details follow."]);
+
+      expect(result.pushed).toEqual([[], ["Here's the gist. It works."], []]);
+      expect(result.finished).toEqual([]);
+    });
+
+    it("speaks only a block in the middle, not the prose before it", () => {
+      const result = stream([
+        "Some intro text.\n",
+        "More prose. ",
+        "[TTS]The summary.[/TTS]\n",
+        "The rest.",
+      ]);
+
+      expect(spoken(result)).toEqual(["The summary."]);
+    });
+
+    it("finds a block split across deltas", () => {
+      const result = stream(["Intro. [T", "T", "S]Sum", "mary.[/T", "TS] rest."]);
+
+      expect(spoken(result)).toEqual(["Summary."]);
+      expect(result.pushed[4]).toEqual(["Summary."]);
+    });
+
+    it("reads the first sentences at the end of the run without a block", () => {
+      const result = stream(["First point. ", "Second point.\n", "Third point."]);
+
+      expect(result.pushed.flat()).toEqual([]);
+      expect(result.finished).toEqual(["First point.", "Second point.", "Third point."]);
+    });
+
+    it("keeps the fallback short", () => {
+      const sentences = Array.from({ length: 8 }, (_, i) => `Sentence ${i + 1}.`);
+
+      expect(spoken(stream([sentences.join(" ")]))).toHaveLength(5);
+    });
+
+    it("reads an unterminated block without its tag", () => {
+      const result = stream(["[TTS]Never closed. ", "Still talking."]);
+
+      expect(spoken(result)).toEqual(["Never closed.", "Still talking."]);
+    });
+
+    it("matches parseResponse's choice of the block", () => {
+      expect(extractSpeech("Prose first.\n[TTS]Summary.[/TTS]\nMore.")).toBe("Summary.");
+    });
+  });
+
+  describe("other policies", () => {
+    it("streams the full reply around the block", () => {
+      const result = stream(
+        ["Intro. ", "[TTS]Sum", "mary.[/TTS]\n", "Body text.\n"],
+        "full"
+      );
+
+      expect(result.pushed[0]).toEqual([]);
+      expect(spoken(result)).toEqual(["Intro.", "Body text."]);
+    });
+
+    it("never speaks a tag that is still coming in", () => {
+      const result = stream(["One. Two. [", "TTS]x[/TTS]\nThree."], "full");
+
+      expect(spoken(result)).toEqual(["One.", "Two.", "Three."]);
+    });
+
+    it("stops after the first paragraph", () => {
+      const result = stream(["# Title\n", "First line.\n", "\n", "Second paragraph."], "first-paragraph");
+
+      expect(spoken(result)).toEqual(["First line."]);
+    });
+
+    it("says nothing when silent", () => {
+      expect(spoken(stream(["[TTS]Summary.[/TTS]\n", "Text."], "silent"))).toEqual([]);
+    });
+
+    it("mentions code once instead of reading it", () => {
+      const result = stream(
+        ["Here:\n", "```ts\n", "const a = 1;\n", "```\n", "```\n", "b\n", "```\n", "Done."],
+        "full"
+      );
+
+      expect(spoken(result)).toEqual(["Here:", "I've put the code in the chat.", "Done."]);
+    });
+  });
+});
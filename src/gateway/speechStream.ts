@@ -0,0 +1,244 @@
+// Incremental extraction of speakable text from a streaming agent reply
+// Follows the same rules as OpenClawGatewayClient.parseResponse so the
+// streamed speech matches what would have been spoken after the full run
+// Text is shaped for speech line by line (see speechText) before it is split
+// into sentences
+
+import {
+  CODE_BLOCK_PLACEHOLDER,
+  isCodeFence,
+  normalizeForSpeech,
+  normalizeLine,
+  splitSentences,
+} from "./speechText";
+
+/**
+ * Fallback limits when the agent reply has no [TTS] block
+ */
+export const TTS_FALLBACK_MAX_SENTENCES = 5;
+export const TTS_FALLBACK_MAX_CHARS = 400;
+
+const TTS_OPEN_TAG = "[TTS]";
+const TTS_BLOCK_PATTERN = /\[TTS\]([\s\S]*?)\[\/TTS\]/i;
+// What parseResponse removes from the displayed reply
+const TTS_BLOCK_WITH_NEWLINE_PATTERN = /\[TTS\][\s\S]*?\[\/TTS\]\n?/i;
+// Stray tags (e.g. of an unterminated block) are never read out
+const TTS_TAG_PATTERN = /\[\/?TTS\]/gi;
+
+/**
+ * What the avatar says of a reply:
+ * - summary: the [TTS] block, or the first few sentences without one
+ * - full: the whole reply (minus the [TTS] block), sentence by sentence
+ * - first-paragraph: the first paragraph of the reply, headings skipped
+ * - silent: nothing, the reply is only shown in the chat
+ */
+export type SpeechPolicy = "summary" | "full" | "first-paragraph" | "silent";
+
+export const DEFAULT_SPEECH_POLICY: SpeechPolicy = "summary";
+
+type SpeechStreamMode = "tts" | "sentences" | "done";
+
+export class SpeechStream {
+  private policy: SpeechPolicy;
+  private buffer = "";
+  // Start of the line being read, and how many of its sentences went out
+  private lineStart = 0;
+  private lineSentences = 0;
+  private inCode = false;
+  private codeMentioned = false;
+  private mode: SpeechStreamMode = "sentences";
+  // The [TTS] block has been dealt with - any later tags are just stripped
+  private blockHandled = false;
+  private sentenceCount = 0;
+  private spokenChars = 0;
+
+  constructor(policy: SpeechPolicy = DEFAULT_SPEECH_POLICY) {
+    this.policy = policy;
+    if (policy === "silent") this.mode = "done";
+  }
+
+  /**
+   * Feed an assistant delta, returns any text that is now ready to be spoken
+   */
+  push(delta: string): string[] {
+    if (this.mode === "done") return [];
+    this.buffer += delta;
+    return this.drain(false);
+  }
+
+  /**
+   * Flush whatever is left once the run has ended
+   */
+  finish(): string[] {
+    if (this.mode === "done") return [];
+    const out = this.drain(true);
+    this.mode = "done";
+    return out;
+  }
+
+  /**
+   * True once anything has been handed out for speech
+   */
+  get hasSpoken(): boolean {
+    return this.sentenceCount > 0;
+  }
+
+  private drain(final: boolean): string[] {
+    // Sentences are only read up to here - past it there may be a [TTS]
+    // block that is still coming in
+    let readableEnd = this.buffer.length;
+
+    if (this.mode === "sentences" && !this.blockHandled) {
+      const open = this.buffer.toUpperCase().indexOf(TTS_OPEN_TAG, this.lineStart);
+      if (this.policy === "summary") {
+        if (open !== -1) {
+          // The block is the summary wherever it appears, same as parseResponse
+          this.mode = "tts";
+        } else if (!final) {
+          // A block may still come and would replace anything read before
+          // it, so the fallback sentences wait for the end of the run
+          return [];
+        }
+      } else if (open !== -1) {
+        // The other policies read the reply around the block, so cut it out
+        // once it is complete
+        const block = TTS_BLOCK_WITH_NEWLINE_PATTERN.exec(this.buffer.substring(open));
+        if (block) {
+          this.buffer =
+            this.buffer.substring(0, open) + this.buffer.substring(open + block[0].length);
+          this.blockHandled = true;
+        } else if (!final) {
+          readableEnd = open;
+        }
+      } else if (!final) {
+        readableEnd = this.buffer.length - this.partialOpenTagLength();
+      }
+    }
+
+    if (this.mode === "tts") {
+      const match = this.buffer.match(TTS_BLOCK_PATTERN);
+      if (match) {
+        // Speak the summary as soon as the closing tag arrives, the rest of
+        // the reply is for display only
+        this.mode = "done";
+        this.blockHandled = true;
+        const summary = normalizeForSpeech(match[1]);
+        if (!summary) return [];
+        this.sentenceCount++;
+        this.spokenChars += summary.length;
+        return [summary];
+      }
+      if (!final) return [];
+      // Unterminated block - read the reply as if it had none, like
+      // parseResponse does
+      this.mode = "sentences";
+      this.blockHandled = true;
+    }
+
+    const text = this.buffer.substring(0, readableEnd);
+    const ended = final && readableEnd === this.buffer.length;
+    const out: string[] = [];
+    while (this.mode === "sentences") {
+      const newline = text.indexOf("\n", this.lineStart);
+      const complete = newline !== -1 || ended;
+      const line = text.substring(
+        this.lineStart,
+        newline === -1 ? text.length : newline
+      );
+
+      // A partial line could still turn out to be a code fence
+      if (!complete && (isCodeFence(line) || /^\s*`{1,2}$/.test(line))) break;
+
+      const firstParagraph = this.policy === "first-paragraph";
+      if (
+        firstParagraph &&
+        this.sentenceCount > 0 &&
+        complete &&
+        (!line.trim() || isCodeFence(line))
+      ) {
+        // The first paragraph has been read
+        this.mode = "done";
+        break;
+      }
+
+      if (isCodeFence(line)) {
+        this.inCode = !this.inCode;
+        if (this.inCode && !this.codeMentioned && !firstParagraph) {
+          this.codeMentioned = true;
+          this.speak(out, CODE_BLOCK_PLACEHOLDER);
+        }
+      } else if (firstParagraph && /^\s*#{1,6}\s/.test(line)) {
+        // Headings aren't part of the paragraph
+      } else if (!this.inCode) {
+        // The last sentence of a partial line may still be growing
+        const sentences = splitSentences(
+          normalizeLine(line.replace(TTS_TAG_PATTERN, ""), complete)
+        );
+        const ready = complete ? sentences : sentences.slice(0, -1);
+        ready
+          .slice(this.lineSentences)
+          .forEach((sentence) => this.speak(out, sentence));
+        this.lineSentences = ready.length;
+      }
+
+      if (newline === -1) {
+        if (ended) this.mode = "done";
+        break;
+      }
+      this.lineStart = newline + 1;
+      this.lineSentences = 0;
+    }
+
+    return out;
+  }
+
+  /**
+   * Length of a possible start of the [TTS] tag at the end of the buffer
+   */
+  private partialOpenTagLength(): number {
+    const tail = this.buffer.substring(this.lineStart).toUpperCase();
+    for (let length = TTS_OPEN_TAG.length - 1; length > 0; length--) {
+      if (tail.endsWith(TTS_OPEN_TAG.substring(0, length))) return length;
+    }
+    return 0;
+  }
+
+  private speak(out: string[], sentence: string) {
+    if (this.mode !== "sentences") return;
+
+    // Only the summary is kept short
+    if (this.policy !== "summary") {
+      out.push(sentence);
+      this.sentenceCount++;
+      this.spokenChars += sentence.length;
+      return;
+    }
+
+    if (
+      this.spokenChars + sentence.length > TTS_FALLBACK_MAX_CHARS &&
+      this.sentenceCount > 0
+    ) {
+      this.mode = "done";
+      return;
+    }
+
+    out.push(sentence);
+    this.sentenceCount++;
+    this.spokenChars += sentence.length;
+
+    if (this.sentenceCount >= TTS_FALLBACK_MAX_SENTENCES) {
+      this.mode = "done";
+    }
+  }
+}
+
+/**
+ * What would be said of a complete reply under the given policy
+ */
+export function extractSpeech(
+  text: string,
+  policy: SpeechPolicy = DEFAULT_SPEECH_POLICY
+): string {
+  const stream = new SpeechStream(policy);
+  return [...stream.push(text), ...stream.finish()].join(" ");
+}
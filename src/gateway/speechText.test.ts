@@ -0,0 +1,78 @@
+import { describe, expect, it } from "vitest";
+import {
+  CODE_BLOCK_PLACEHOLDER,
+  chunkSentences,
+  normalizeForSpeech,
+  normalizeLine,
+  segmentForSpeech,
+  splitSentences,
+} from "./speechText";
+
+describe("speechText", () => {
+  describe("normalizeLine", () => {
+    it("drops markdown and ends the line with a full stop", () => {
+      expect(normalizeLine("## **Setup** steps")).toBe("Setup steps.");
+      expect(normalizeLine("- [x] `npm install` done")).toBe("npm install done.");
+      expect(normalizeLine("Read [the docs](https://example.com/docs)")).toBe("Read the docs.");
+    });
+
+    it("leaves a partial line open", () => {
+      expect(normalizeLine("Still typing", false)).toBe("Still typing");
+    });
+
+    it("speaks URLs by their domain and paths by their file name", () => {
+      expect(normalizeLine("See https://www.GitHub.com/openclaw/repo")).toBe("See github.com.");
+      expect(normalizeLine("Edit src/app/config.ts now")).toBe("Edit config.ts now.");
+    });
+
+    it("writes out symbols and units", () => {
+      expect(normalizeLine("It costs $5 and takes 20ms")).toBe(
+        "It costs 5 dollars and takes 20 milliseconds."
+      );
+      expect(normalizeLine("Up 15% at 20°C")).toBe("Up 15 percent at 20 degrees Celsius.");
+    });
+
+    it("has nothing to say for rules and table separators", () => {
+      expect(normalizeLine("---")).toBe("");
+      expect(normalizeLine("| --- | :-: |")).toBe("");
+    });
+
+    it("reads table rows cell by cell", () => {
+      expect(normalizeLine("| Name | Size |")).toBe("Name, Size.");
+    });
+  });
+
+  describe("normalizeForSpeech", () => {
+    it("replaces code blocks with a single pointer to the chat", () => {
+      const text = "Try this:\n```\nls\n```\nOr this:\n```\npwd\n```";
+
+      expect(normalizeForSpeech(text)).toBe(`Try this: ${CODE_BLOCK_PLACEHOLDER} Or this:`);
+    });
+  });
+
+  describe("splitSentences", () => {
+    it("splits on sentence terminators", () => {
+      expect(splitSentences("One. Two! Three?")).toEqual(["One.", "Two!", "Three?"]);
+    });
+  });
+
+  describe("segmentForSpeech", () => {
+    it("points each sentence back into the text", () => {
+      const text = "First one. Second one.\n```\ncode\n```";
+      const segments = segmentForSpeech(text);
+
+      expect(segments.map((segment) => text.substring(segment.start, segment.end))).toEqual([
+        "First one.",
+        "Second one.",
+        "```\ncode\n```",
+      ]);
+      expect(segments[2].spoken).toBe(CODE_BLOCK_PLACEHOLDER);
+    });
+  });
+
+  describe("chunkSentences", () => {
+    it("groups sentences up to the limit", () => {
+      expect(chunkSentences("Aaa. Bbb. Ccc.", 9)).toEqual(["Aaa. Bbb.", "Ccc."]);
+    });
+  });
+});
@@ -0,0 +1,312 @@
+// Turns agent replies into text the avatar can say out loud
+// Markdown is stripped, code blocks are left for the chat, URLs are spoken as
+// their domain and common symbols and units are written out
+
+// Said in place of a code block - only once per reply
+export const CODE_BLOCK_PLACEHOLDER = "I've put the code in the chat.";
+
+const CODE_FENCE_PATTERN = /^\s*(```|~~~)/;
+const SENTENCE_TERMINATOR_PATTERN = /[.!?。！？…:;]["'”’)\]]*$/;
+
+// Fallback for runtimes without Intl.Segmenter - Latin and CJK terminators
+const FALLBACK_SENTENCE_PATTERN = /[^.!?。！？]+(?:[.!?。！？]+["'”’)\]]*(?:\s+|$)|$)/g;
+
+const UNITS: Record<string, [string, string]> = {
+  ms: ["millisecond", "milliseconds"],
+  KB: ["kilobyte", "kilobytes"],
+  MB: ["megabyte", "megabytes"],
+  GB: ["gigabyte", "gigabytes"],
+  TB: ["terabyte", "terabytes"],
+  MHz: ["megahertz", "megahertz"],
+  GHz: ["gigahertz", "gigahertz"],
+  mm: ["millimeter", "millimeters"],
+  cm: ["centimeter", "centimeters"],
+  km: ["kilometer", "kilometers"],
+  kg: ["kilogram", "kilograms"],
+  mph: ["mile per hour", "miles per hour"],
+  "km/h": ["kilometer per hour", "kilometers per hour"],
+};
+
+const CURRENCIES: Record<string, [string, string]> = {
+  $: ["dollar", "dollars"],
+  "€": ["euro", "euros"],
+  "£": ["pound", "pounds"],
+  "¥": ["yen", "yen"],
+};
+
+const ABBREVIATIONS: [RegExp, string][] = [
+  [/\be\.g\.(?=\s|$)/gi, "for example"],
+  [/\bi\.e\.(?=\s|$)/gi, "that is"],
+  [/\betc\.(?=\s*$)/gi, "et cetera."],
+  [/\betc\./gi, "et cetera"],
+  [/\bvs\.?(?=\s)/gi, "versus"],
+];
+
+const unitPattern = new RegExp(
+  `(\\d+(?:[.,]\\d+)?)\\s?(${Object.keys(UNITS)
+    // Longest first, so "km/h" wins over "km"
+    .sort((a, b) => b.length - a.length)
+    .map((unit) => unit.replace("/", "\\/"))
+    .join("|")})\\b`,
+  "g"
+);
+
+const plural = (amount: string, [one, many]: [string, string]) =>
+  amount === "1" ? one : many;
+
+const segmenters = new Map<string, Intl.Segmenter>();
+
+const getSegmenter = (locale?: string): Intl.Segmenter | null => {
+  if (typeof Intl === "undefined" || !("Segmenter" in Intl)) return null;
+  const key = locale || "";
+  let segmenter = segmenters.get(key);
+  if (!segmenter) {
+    segmenter = new Intl.Segmenter(locale, { granularity: "sentence" });
+    segmenters.set(key, segmenter);
+  }
+  return segmenter;
+};
+
+// Sentences of text as [start, end) offsets, trailing whitespace included
+const sentenceRanges = (text: string, locale?: string): [number, number][] => {
+  const segmenter = getSegmenter(locale);
+  if (segmenter) {
+    return Array.from(segmenter.segment(text), ({ index, segment }) => [
+      index,
+      index + segment.length,
+    ]);
+  }
+  const ranges: [number, number][] = [];
+  const pattern = new RegExp(FALLBACK_SENTENCE_PATTERN.source, "g");
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) && match[0]) {
+    ranges.push([match.index, match.index + match[0].length]);
+  }
+  return ranges;
+};
+
+/**
+ * Split text into sentences, using the runtime's locale-aware segmenter
+ * when there is one so non-Latin punctuation is handled too
+ */
+export function splitSentences(text: string, locale?: string): string[] {
+  return sentenceRanges(text, locale)
+    .map(([start, end]) => text.substring(start, end).trim())
+    .filter(Boolean);
+}
+
+/**
+ * A piece of the original text and what to say for it
+ */
+export interface SpeechSegment {
+  start: number;
+  end: number;
+  spoken: string;
+}
+
+/**
+ * Split a whole message into speakable sentences that point back into the
+ * original text, e.g. to highlight what is being read out. A code block is a
+ * single segment.
+ */
+export function segmentForSpeech(text: string, locale?: string): SpeechSegment[] {
+  const segments: SpeechSegment[] = [];
+  let codeStart = -1;
+  let offset = 0;
+
+  text.split("\n").forEach((line) => {
+    const lineStart = offset;
+    offset += line.length + 1;
+
+    if (isCodeFence(line)) {
+      if (codeStart === -1) {
+        codeStart = lineStart;
+      } else {
+        segments.push({
+          start: codeStart,
+          end: lineStart + line.length,
+          spoken: CODE_BLOCK_PLACEHOLDER,
+        });
+        codeStart = -1;
+      }
+      return;
+    }
+    if (codeStart !== -1) return;
+
+    sentenceRanges(line, locale).forEach(([start, end], i, ranges) => {
+      const raw = line.substring(start, end);
+      // Only the last sentence of a line gets a full stop added
+      const spoken = normalizeLine(raw, i === ranges.length - 1);
+      if (!spoken) return;
+      const leading = raw.length - raw.trimStart().length;
+      segments.push({
+        start: lineStart + start + leading,
+        end: lineStart + start + raw.trimEnd().length,
+        spoken,
+      });
+    });
+  });
+
+  // An unclosed code block runs to the end
+  if (codeStart !== -1) {
+    segments.push({ start: codeStart, end: text.length, spoken: CODE_BLOCK_PLACEHOLDER });
+  }
+  return segments;
+}
+
+/**
+ * Group sentences into chunks of up to maxChars, so a long text can be said
+ * over several repeat calls. A single longer sentence gets a chunk of its own.
+ */
+export function chunkSentences(text: string, maxChars: number = 400): string[] {
+  const chunks: string[] = [];
+  let current = "";
+  splitSentences(text).forEach((sentence) => {
+    if (current && current.length + sentence.length + 1 > maxChars) {
+      chunks.push(current);
+      current = "";
+    }
+    current = current ? `${current} ${sentence}` : sentence;
+  });
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+/**
+ * True for lines that open or close a fenced code block
+ */
+export function isCodeFence(line: string): boolean {
+  return CODE_FENCE_PATTERN.test(line);
+}
+
+/**
+ * Write out symbols and units so they are read as words
+ */
+function expandSymbols(text: string): string {
+  let out = text;
+  ABBREVIATIONS.forEach(([pattern, replacement]) => {
+    out = out.replace(pattern, replacement);
+  });
+
+  return out
+    .replace(/([$€£¥])\s?(\d+(?:[.,]\d+)?)([kKmM]?)\b/g, (_, symbol: string, amount: string, scale: string) => {
+      const size = scale.toLowerCase() === "k" ? " thousand" : scale ? " million" : "";
+      return `${amount}${size} ${plural(scale ? "" : amount, CURRENCIES[symbol])}`;
+    })
+    .replace(unitPattern, (_, amount: string, unit: string) => `${amount} ${plural(amount, UNITS[unit])}`)
+    .replace(/(\d)\s?°\s?C\b/g, "$1 degrees Celsius")
+    .replace(/(\d)\s?°\s?F\b/g, "$1 degrees Fahrenheit")
+    .replace(/(\d)\s?°/g, "$1 degrees")
+    .replace(/(\d)\s?%/g, "$1 percent")
+    .replace(/(\d)\s?[x×]\s?(\d)/g, "$1 by $2")
+    .replace(/~\s?(\d)/g, "about $1")
+    .replace(/#(\d)/g, "number $1")
+    .replace(/\s*(?:->|=>|→)\s*/g, " to ")
+    .replace(/\s*(?:<-|←)\s*/g, " from ")
+    .replace(/\s*(?:≈)\s*/g, " approximately ")
+    .replace(/\s*(?:>=|≥)\s*/g, " at least ")
+    .replace(/\s*(?:<=|≤)\s*/g, " at most ")
+    .replace(/(\d)\s?\+\s?(\d)/g, "$1 plus $2")
+    .replace(/(\d)\s?=\s?(\d)/g, "$1 equals $2")
+    .replace(/\s+&\s+/g, " and ")
+    // "and/or", "read/write" - words only, so fractions are left alone
+    .replace(/\b([a-z]+)\/([a-z]+)\b/gi, "$1 or $2");
+}
+
+/**
+ * Strip inline markdown, speak links by their text and URLs by their domain,
+ * and file paths by their file name
+ */
+function normalizeInline(text: string): string {
+  return expandSymbols(
+    text
+      // Images and links keep their text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      // Autolinks and bare URLs become their domain
+      .replace(/<(https?:\/\/[^>\s]+)>/g, "$1")
+      .replace(
+        /\b(?:https?:\/\/|www\.)(?:www\.)?([a-z0-9-]+(?:\.[a-z0-9-]+)+)(?::\d+)?(?:[/?#][^\s)]*[^\s).,!?;:])?/gi,
+        (_, domain: string) => domain.toLowerCase()
+      )
+      // Inline code keeps its content, minus the backticks
+      .replace(/`+([^`]*)`+/g, "$1")
+      // Emphasis and strikethrough
+      .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "$2")
+      .replace(/(^|[^\w*])\*(?=\S)([^*]*?\S)\*(?!\w)/g, "$1$2")
+      .replace(/(^|[^\w])_(?=\S)([^_]*?\S)_(?!\w)/g, "$1$2")
+      .replace(/~~([^~]+)~~/g, "$1")
+      // File paths are spoken by their file name
+      .replace(
+        /(^|[\s("'])((?:~|\.{1,2})?(?:\/[\w.@-]+){2,}\/?|[\w.@-]+(?:\/[\w.@-]+)+\.[a-z]\w*)/gi,
+        (_, lead: string, path: string) =>
+          lead + (path.replace(/\/$/, "").split("/").pop() || path)
+      )
+      // HTML tags
+      .replace(/<\/?[a-z][^>]*>/gi, "")
+      // Stray markers left by unbalanced markdown
+      .replace(/\*{2,}|_{2,}/g, "")
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Make one line of a reply speakable, dropping markdown block syntax. A
+ * complete line gets a full stop if it has none, so headings and list items
+ * are read as separate sentences. Returns "" for lines with nothing to say.
+ */
+export function normalizeLine(line: string, complete: boolean = true): string {
+  // Horizontal rules and table separators
+  if (/^\s*([-*_])(\s*\1){2,}\s*$/.test(line) || /^\s*\|?[\s:|-]+\|[\s:|-]*$/.test(line)) {
+    return "";
+  }
+
+  let text = line
+    .replace(/^\s*>+\s?/, "")
+    .replace(/^\s*#{1,6}\s+/, "")
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+(?:\[[ xX]\]\s+)?/, "");
+
+  // Table rows are read cell by cell
+  if (/^\s*\|.*\|\s*$/.test(text)) {
+    text = text
+      .replace(/^\s*\||\|\s*$/g, "")
+      .split("|")
+      .map((cell) => cell.trim())
+      .filter(Boolean)
+      .join(", ");
+  }
+
+  text = normalizeInline(text);
+  if (complete && text && !SENTENCE_TERMINATOR_PATTERN.test(text)) {
+    text += ".";
+  }
+  return text;
+}
+
+/**
+ * Make a whole reply speakable. Code blocks are replaced with a pointer to
+ * the chat, said once no matter how many blocks there are.
+ */
+export function normalizeForSpeech(text: string): string {
+  const out: string[] = [];
+  let inCode = false;
+  let codeMentioned = false;
+
+  text.split(/\r?\n/).forEach((line) => {
+    if (isCodeFence(line)) {
+      inCode = !inCode;
+      if (inCode && !codeMentioned) {
+        codeMentioned = true;
+        out.push(CODE_BLOCK_PLACEHOLDER);
+      }
+      return;
+    }
+    if (inCode) return;
+
+    const spoken = normalizeLine(line);
+    if (spoken) out.push(spoken);
+  });
+
+  return out.join(" ");
+}
@@ -1,5 +1,8 @@
 // OpenClaw Gateway WebSocket Protocol Types
 
+import { ResponseFormat } from "./responseFormat";
+import { SpeechPolicy } from "./speechStream";
+
 export interface GatewayRequest {
   type: "req";
   id: string;
@@ -33,32 +36,147 @@ export interface ConnectRequest {
   minProtocol: number;
   maxProtocol: number;
   client: {
-    name: string;
+    id: string;
     version: string;
+    platform: string;
+    mode: string;
+    displayName?: string;
+  };
+  auth?: {
+    token: string;
   };
-  role: "operator" | "node";
-  scopes?: string[];
-  caps?: string[];
 }
 
 export interface ConnectResponse {
-  protocol: number;
+  type?: string;
+  protocol?: number;
   policy?: Record<string, unknown>;
+  snapshot?: {
+    stateVersion?: number;
+    sessionDefaults?: {
+      mainSessionKey?: string;
+      defaultAgentId?: string;
+    };
+  };
 }
 
 // Agent request/response
 export interface AgentRequest {
   message: string;
   idempotencyKey: string;
+  sessionKey?: string;
   conversationId?: string;
+  // Appended to the agent's system prompt for this run only
+  extraSystemPrompt?: string;
+  // Route the turn to a specific agent instead of the gateway default
+  agentId?: string;
+}
+
+export interface AgentAccepted {
+  runId: string;
+  status?: string;
+  conversationId?: string;
+}
+
+// agent.wait - "timeout" means the run is still going
+export interface AgentWaitRequest {
+  runId: string;
+  timeoutMs?: number;
+}
+
+export interface AgentWaitResponse {
+  status: "ok" | "error" | "timeout";
+  error?: string;
+}
+
+// chat.abort
+export interface ChatAbortRequest {
+  runId: string;
+  sessionKey?: string;
+}
+
+// chat.history
+export interface ChatHistoryRequest {
+  sessionKey: string;
+  limit?: number;
+}
+
+export interface ChatHistoryMessage {
+  role: string;
+  // Plain text or content blocks ({ type: "text", text })
+  content: unknown;
+  timestamp?: number;
+}
+
+export interface ChatHistoryResponse {
+  messages: ChatHistoryMessage[];
+}
+
+// agents.list
+export interface AgentSummary {
+  id: string;
+  name?: string;
 }
 
+export interface AgentsListResponse {
+  defaultId?: string;
+  agents: AgentSummary[];
+}
+
+// sessions.list
+export interface SessionsListRequest {
+  agentId?: string;
+  limit?: number;
+}
+
+export interface SessionSummary {
+  key: string;
+  label?: string;
+  displayName?: string;
+  updatedAt?: number;
+}
+
+export interface SessionsListResponse {
+  sessions: SessionSummary[];
+}
+
+// Which agent and session the avatar talks to, null fields use the gateway defaults
+export interface GatewaySessionSelection {
+  agentId: string | null;
+  sessionKey: string | null;
+}
+
+// A prior chat turn loaded for display, with formatting instructions and
+// [TTS] blocks already stripped
+export interface HistoryEntry {
+  role: "user" | "assistant";
+  text: string;
+  timestamp?: number;
+}
+
+// Gateway methods we call, with their params and validated result payloads
+export interface GatewayMethods {
+  connect: { params: ConnectRequest; result: ConnectResponse };
+  agent: { params: AgentRequest; result: AgentAccepted };
+  "agent.wait": { params: AgentWaitRequest; result: AgentWaitResponse };
+  "chat.abort": { params: ChatAbortRequest; result: unknown };
+  "chat.history": { params: ChatHistoryRequest; result: ChatHistoryResponse };
+  "agents.list": { params: undefined; result: AgentsListResponse };
+  "sessions.list": { params: SessionsListRequest; result: SessionsListResponse };
+  status: { params: undefined; result: Record<string, unknown> };
+}
+
+export type GatewayMethod = keyof GatewayMethods;
+export type GatewayParams<M extends GatewayMethod> = GatewayMethods[M]["params"];
+export type GatewayResult<M extends GatewayMethod> = GatewayMethods[M]["result"];
+
 // Agent event from gateway (matches OpenClaw protocol)
 export interface AgentEvent {
   runId: string;
-  seq: number;
+  // Not sent by every gateway - without it duplicates and gaps can't be told
+  seq?: number;
   stream: string;
-  ts: number;
+  ts?: number;
   sessionKey?: string;
   data?: {
     phase?: string;
@@ -76,8 +194,51 @@ export interface AgentResponse {
   text?: string;
 }
 
+// Tool call progress from the "tool" agent stream
+export interface AgentToolActivity {
+  kind: "tool";
+  toolCallId: string;
+  name: string;
+  phase: "start" | "update" | "result";
+  args?: unknown;
+  result?: unknown;
+  isError?: boolean;
+  ts: number;
+}
+
+// Incremental reasoning text from the "thinking"/"reasoning" agent streams
+export interface AgentThinkingActivity {
+  kind: "thinking";
+  delta: string;
+  ts: number;
+}
+
+export type AgentActivity = AgentToolActivity | AgentThinkingActivity;
+
+// Options for sendToAgent
+export interface SendToAgentOptions {
+  // Spoken summary instructions for this turn, defaults to DEFAULT_RESPONSE_FORMAT
+  responseFormat?: ResponseFormat;
+  // Called with each speakable chunk (the [TTS] summary, or complete
+  // sentences when there is none) as assistant deltas stream in
+  onSpeech?: (text: string) => void;
+  // Which part of the reply onSpeech gets, defaults to the summary
+  speechPolicy?: SpeechPolicy;
+  // Called for tool and reasoning events while the run is in progress
+  onActivity?: (activity: AgentActivity) => void;
+  // Called once the gateway has accepted the request and started a run
+  onAccepted?: (runId: string) => void;
+  // Called with each piece of reply text as it streams in
+  onDelta?: (delta: string) => void;
+  // Reuse a key when re-sending a queued turn, generated otherwise
+  idempotencyKey?: string;
+  // Aborting cancels the run on the gateway and resolves with status "cancelled"
+  signal?: AbortSignal;
+}
+
 export type GatewayConnectionState =
   | "disconnected"
   | "connecting"
+  | "reconnecting"
   | "connected"
   | "error";
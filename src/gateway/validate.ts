@@ -0,0 +1,260 @@
+// Runtime validation of gateway payloads
+// Newer gateway versions may change payload shapes - fail with a clear
+// message naming the field instead of passing undefined values along
+
+import {
+  AgentEvent,
+  GatewayMethod,
+  GatewayResult,
+} from "./types";
+
+// The protocol version this client speaks (see performHandshake)
+export const GATEWAY_PROTOCOL_VERSION = 3;
+
+export class GatewayProtocolError extends Error {
+  readonly method: string;
+  readonly path: string;
+
+  constructor(method: string, path: string, expected: string, value: unknown) {
+    const received = value === null ? "null" : Array.isArray(value) ? "array" : typeof value;
+    super(
+      `Unexpected gateway payload for "${method}": ${path} should be ${expected}, got ${received}`
+    );
+    this.name = "GatewayProtocolError";
+    this.method = method;
+    this.path = path;
+  }
+}
+
+type Validator<T> = (value: unknown, method: string, path: string) => T;
+
+const isRecord = (value: unknown): value is Record<string, unknown> => {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+};
+
+const object: Validator<Record<string, unknown>> = (value, method, path) => {
+  if (!isRecord(value)) {
+    throw new GatewayProtocolError(method, path, "an object", value);
+  }
+  return value;
+};
+
+const string: Validator<string> = (value, method, path) => {
+  if (typeof value !== "string") {
+    throw new GatewayProtocolError(method, path, "a string", value);
+  }
+  return value;
+};
+
+const number: Validator<number> = (value, method, path) => {
+  if (typeof value !== "number" || Number.isNaN(value)) {
+    throw new GatewayProtocolError(method, path, "a number", value);
+  }
+  return value;
+};
+
+const optional = <T>(validator: Validator<T>): Validator<T | undefined> => {
+  return (value, method, path) =>
+    value === undefined || value === null
+      ? undefined
+      : validator(value, method, path);
+};
+
+const optionalString = optional(string);
+const optionalNumber = optional(number);
+
+const validators: {
+  [M in GatewayMethod]: (payload: unknown) => GatewayResult<M>;
+} = {
+  connect: (payload) => {
+    const res = object(payload, "connect", "payload");
+    const protocol = optionalNumber(res.protocol, "connect", "payload.protocol");
+    if (protocol !== undefined && protocol !== GATEWAY_PROTOCOL_VERSION) {
+      throw new Error(
+        `Gateway negotiated protocol ${protocol}, but this client only supports protocol ${GATEWAY_PROTOCOL_VERSION}`
+      );
+    }
+
+    const snapshot = optional(object)(res.snapshot, "connect", "payload.snapshot");
+    const defaults = snapshot
+      ? optional(object)(
+          snapshot.sessionDefaults,
+          "connect",
+          "payload.snapshot.sessionDefaults"
+        )
+      : undefined;
+
+    return {
+      type: optionalString(res.type, "connect", "payload.type"),
+      protocol,
+      policy: optional(object)(res.policy, "connect", "payload.policy"),
+      snapshot: snapshot && {
+        stateVersion: optionalNumber(
+          snapshot.stateVersion,
+          "connect",
+          "payload.snapshot.stateVersion"
+        ),
+        sessionDefaults: defaults && {
+          mainSessionKey: optionalString(
+            defaults.mainSessionKey,
+            "connect",
+            "payload.snapshot.sessionDefaults.mainSessionKey"
+          ),
+          defaultAgentId: optionalString(
+            defaults.defaultAgentId,
+            "connect",
+            "payload.snapshot.sessionDefaults.defaultAgentId"
+          ),
+        },
+      },
+    };
+  },
+
+  agent: (payload) => {
+    const res = object(payload, "agent", "payload");
+    return {
+      runId: string(res.runId, "agent", "payload.runId"),
+      status: optionalString(res.status, "agent", "payload.status"),
+      conversationId: optionalString(
+        res.conversationId,
+        "agent",
+        "payload.conversationId"
+      ),
+    };
+  },
+
+  "agent.wait": (payload) => {
+    const res = object(payload, "agent.wait", "payload");
+    const status = string(res.status, "agent.wait", "payload.status");
+    if (status !== "ok" && status !== "error" && status !== "timeout") {
+      throw new GatewayProtocolError(
+        "agent.wait",
+        "payload.status",
+        '"ok", "error" or "timeout"',
+        status
+      );
+    }
+    return {
+      status,
+      error: optionalString(res.error, "agent.wait", "payload.error"),
+    };
+  },
+
+  "chat.abort": (payload) => payload,
+
+  "chat.history": (payload) => {
+    const res = object(payload, "chat.history", "payload");
+    if (!Array.isArray(res.messages)) {
+      throw new GatewayProtocolError(
+        "chat.history",
+        "payload.messages",
+        "an array",
+        res.messages
+      );
+    }
+    return {
+      messages: res.messages.map((item, index) => {
+        const path = `payload.messages[${index}]`;
+        const message = object(item, "chat.history", path);
+        return {
+          role: string(message.role, "chat.history", `${path}.role`),
+          content: message.content,
+          timestamp: optionalNumber(
+            message.timestamp,
+            "chat.history",
+            `${path}.timestamp`
+          ),
+        };
+      }),
+    };
+  },
+
+  "agents.list": (payload) => {
+    const res = object(payload, "agents.list", "payload");
+    if (!Array.isArray(res.agents)) {
+      throw new GatewayProtocolError(
+        "agents.list",
+        "payload.agents",
+        "an array",
+        res.agents
+      );
+    }
+    return {
+      defaultId: optionalString(res.defaultId, "agents.list", "payload.defaultId"),
+      agents: res.agents.map((item, index) => {
+        const path = `payload.agents[${index}]`;
+        const agent = object(item, "agents.list", path);
+        return {
+          id: string(agent.id, "agents.list", `${path}.id`),
+          name: optionalString(agent.name, "agents.list", `${path}.name`),
+        };
+      }),
+    };
+  },
+
+  "sessions.list": (payload) => {
+    const res = object(payload, "sessions.list", "payload");
+    if (!Array.isArray(res.sessions)) {
+      throw new GatewayProtocolError(
+        "sessions.list",
+        "payload.sessions",
+        "an array",
+        res.sessions
+      );
+    }
+    return {
+      sessions: res.sessions.map((item, index) => {
+        const path = `payload.sessions[${index}]`;
+        const session = object(item, "sessions.list", path);
+        return {
+          key: string(session.key, "sessions.list", `${path}.key`),
+          label: optionalString(session.label, "sessions.list", `${path}.label`),
+          displayName: optionalString(
+            session.displayName,
+            "sessions.list",
+            `${path}.displayName`
+          ),
+          updatedAt: optionalNumber(
+            session.updatedAt,
+            "sessions.list",
+            `${path}.updatedAt`
+          ),
+        };
+      }),
+    };
+  },
+
+  status: (payload) => object(payload, "status", "payload"),
+};
+
+/**
+ * Check a response payload against the shape expected for its method
+ */
+export function validateResult<M extends GatewayMethod>(
+  method: M,
+  payload: unknown
+): GatewayResult<M> {
+  return validators[method](payload) as GatewayResult<M>;
+}
+
+/**
+ * Check an "agent" event payload before it reaches run collectors
+ */
+export function validateAgentEvent(payload: unknown): AgentEvent {
+  const event = object(payload, "event:agent", "payload");
+  const data = optional(object)(event.data, "event:agent", "payload.data");
+  return {
+    runId: string(event.runId, "event:agent", "payload.runId"),
+    seq: optionalNumber(event.seq, "event:agent", "payload.seq"),
+    stream: string(event.stream, "event:agent", "payload.stream"),
+    ts: optionalNumber(event.ts, "event:agent", "payload.ts"),
+    sessionKey: optionalString(event.sessionKey, "event:agent", "payload.sessionKey"),
+    data: data && {
+      ...data,
+      phase: optionalString(data.phase, "event:agent", "payload.data.phase"),
+      text: optionalString(data.text, "event:agent", "payload.data.text"),
+      delta: optionalString(data.delta, "event:agent", "payload.data.delta"),
+      error: optionalString(data.error, "event:agent", "payload.data.error"),
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { AgentActivity } from "../gateway/types";
+import { AgentActivityEntry } from "./types";
+
+// Keep tool arguments/results readable in the chat panel
+const MAX_DETAIL_LENGTH = 2000;
+
+const formatDetail = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+  const text =
+    typeof value === "string" ? value : JSON.stringify(value, null, 2);
+  return text.length > MAX_DETAIL_LENGTH
+    ? text.substring(0, MAX_DETAIL_LENGTH) + "..."
+    : text;
+};
+
+/**
+ * Fold an activity event into the entry list for the current turn.
+ * Tool events are merged by toolCallId, consecutive reasoning deltas into one entry.
+ */
+export const applyAgentActivity = (
+  entries: AgentActivityEntry[],
+  activity: AgentActivity
+): AgentActivityEntry[] => {
+  const last = entries[entries.length - 1];
+
+  if (activity.kind === "thinking") {
+    if (last && last.kind === "thinking" && last.status === "running") {
+      return [
+        ...entries.slice(0, -1),
+        { ...last, details: last.details + activity.delta },
+      ];
+    }
+    return [
+      ...entries,
+      {
+        id: `thinking-${entries.length}`,
+        kind: "thinking",
+        title: "Thinking",
+        status: "running",
+        details: activity.delta,
+      },
+    ];
+  }
+
+  // A tool call ends the reasoning block before it
+  const settled =
+    last && last.kind === "thinking" && last.status === "running"
+      ? [...entries.slice(0, -1), { ...last, status: "done" as const }]
+      : entries;
+
+  const id = `tool-${activity.toolCallId}`;
+  const status =
+    activity.phase === "result"
+      ? activity.isError
+        ? "error"
+        : "done"
+      : "running";
+  const index = settled.findIndex((entry) => entry.id === id);
+
+  if (index === -1) {
+    return [
+      ...settled,
+      {
+        id,
+        kind: "tool",
+        title: activity.name,
+        status,
+        details: formatDetail(activity.args),
+      },
+    ];
+  }
+
+  const entry = settled[index];
+  const result =
+    activity.phase === "result" ? formatDetail(activity.result) : "";
+  const updated: AgentActivityEntry = {
+    ...entry,
+    status,
+    details: result
+      ? `${entry.details}${entry.details ? "\n\n" : ""}Result:\n${result}`
+      : entry.details,
+  };
+  return [...settled.slice(0, index), updated, ...settled.slice(index + 1)];
+};
+
+/**
+ * Mark anything still running as done once the turn has finished
+ */
+export const settleAgentActivity = (
+  entries: AgentActivityEntry[]
+): AgentActivityEntry[] => {
+  return entries.map((entry) =>
+    entry.status === "running" ? { ...entry, status: "done" } : entry
+  );
+};
@@ -0,0 +1,58 @@
+import { SpeechPolicy } from "../gateway/speechStream";
+import { GatewaySessionSelection } from "../gateway/types";
+
+const STORAGE_KEY = "openclaw-liveavatar:avatar-preferences";
+
+// Used when the session was started without picking an avatar
+export const DEFAULT_AVATAR_KEY = "default";
+
+/**
+ * Settings remembered for one avatar, e.g. so an avatar always talks to the
+ * same agent
+ */
+export interface AvatarPreferences {
+  gatewaySession?: GatewaySessionSelection;
+  speechPolicy?: SpeechPolicy;
+}
+
+const getStorage = (): Storage | null => {
+  return typeof window !== "undefined" ? window.localStorage : null;
+};
+
+const loadAll = (): Record<string, AvatarPreferences> => {
+  const storage = getStorage();
+  if (!storage) return {};
+  try {
+    const raw = storage.getItem(STORAGE_KEY);
+    const parsed = raw ? JSON.parse(raw) : {};
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed)
+      ? parsed
+      : {};
+  } catch (err) {
+    console.error("[Preferences] Failed to load avatar preferences:", err);
+    return {};
+  }
+};
+
+export function getAvatarPreferences(avatarId?: string): AvatarPreferences {
+  return loadAll()[avatarId || DEFAULT_AVATAR_KEY] || {};
+}
+
+/**
+ * Merge the given settings into what is stored for the avatar
+ */
+export function saveAvatarPreferences(
+  avatarId: string | undefined,
+  preferences: Partial<AvatarPreferences>
+) {
+  const storage = getStorage();
+  if (!storage) return;
+  const all = loadAll();
+  const key = avatarId || DEFAULT_AVATAR_KEY;
+  all[key] = { ...all[key], ...preferences };
+  try {
+    storage.setItem(STORAGE_KEY, JSON.stringify(all));
+  } catch (err) {
+    console.error("[Preferences] Failed to save avatar preferences:", err);
+  }
+}
@@ -0,0 +1,205 @@
+// @vitest-environment jsdom
+import { act, cleanup, render, waitFor } from "@testing-library/react";
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { startFakeGateway } from "../../scripts/fake-gateway.js";
+import { LiveAvatarContextProvider, useLiveAvatarContext } from "./context";
+import { FakeLiveAvatarSession, FakeSessionOptions, createFakeSession } from "./fakeSession";
+import { DEFAULT_NARRATION_RULES, NarrationConfig } from "./narration";
+import { MessageSender } from "./types";
+
+type FakeGateway = Awaited<ReturnType<typeof startFakeGateway>>;
+type ContextValue = ReturnType<typeof useLiveAvatarContext>;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+const assistant = (delta: string) => ({ stream: "assistant", data: { delta } });
+const end = { stream: "lifecycle", data: { phase: "end" } };
+
+const FILLER = "One moment please...";
+
+// Shorter than the default so the tests don't sit through it
+const narration: NarrationConfig = {
+  rules: DEFAULT_NARRATION_RULES,
+  initialDelayMs: 300,
+  minIntervalMs: 6000,
+  fallbackPhrases: [FILLER],
+};
+
+const userMessages = (context: ContextValue, text: string) =>
+  context.messages.filter(
+    (message) => message.sender === MessageSender.USER && message.message === text
+  );
+
+describe("LiveAvatarContextProvider on the fake session", () => {
+  let gateway: FakeGateway;
+  let context: ContextValue;
+
+  const Probe = () => {
+    context = useLiveAvatarContext();
+    return null;
+  };
+
+  // Mounts the provider, waits for the gateway and starts the session. The
+  // intro is spoken once the stream is ready, so wait for it to finish
+  const startSession = async (options: FakeSessionOptions = {}) => {
+    render(
+      <LiveAvatarContextProvider
+        sessionAccessToken="test-token"
+        createSession={createFakeSession({ speakMsPerChar: 1, ...options })}
+        narration={narration}
+        degradation={false}
+        idleTimeout={false}
+      >
+        <Probe />
+      </LiveAvatarContextProvider>
+    );
+    await waitFor(() => expect(context.isDemoMode).toBe(false));
+
+    const session = context.sessionRef.current as unknown as FakeLiveAvatarSession;
+    await act(() => session.start());
+    await waitFor(() => expect(session.spoken).toHaveLength(1), { timeout: 3000 });
+    await waitFor(() => expect(context.isAvatarTalking).toBe(false), { timeout: 3000 });
+    return session;
+  };
+
+  beforeAll(async () => {
+    // Logs keep coming from unmounted providers, so stay quiet for the whole file
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    gateway = await startFakeGateway({
+      port: 0,
+      quiet: true,
+      scenario: {
+        replies: [
+          { match: "slow", steps: [{ delayMs: 1000 }, assistant("[TTS]Worth the wait.[/TTS]"), end] },
+          { match: "quick", steps: [assistant("[TTS]Right away.[/TTS]"), end] },
+        ],
+      },
+    });
+    // Read once by the shared gateway client
+    (window as unknown as { __OPENCLAW_GATEWAY_URL?: string }).__OPENCLAW_GATEWAY_URL =
+      `ws://127.0.0.1:${gateway.port}`;
+  });
+
+  afterAll(async () => {
+    await gateway.close();
+    vi.restoreAllMocks();
+  });
+
+  afterEach(() => {
+    cleanup();
+  });
+
+  it("speaks the intro once the stream is ready", async () => {
+    const session = await startSession();
+
+    const intro = context.messages.find((message) => message.source === "system");
+    expect(intro?.sender).toBe(MessageSender.AVATAR);
+    expect(session.spoken).toEqual([intro?.message]);
+  });
+
+  describe("typed turns", () => {
+    it("sends the text and speaks the reply", async () => {
+      const session = await startSession();
+
+      act(() => context.addTypedMessage("typed question"));
+
+      await waitFor(() => expect(session.spoken).toContain("You said: typed question."));
+      const [message] = userMessages(context, "typed question");
+      expect(message.source).toBe("typed");
+      await waitFor(() =>
+        expect(context.messages[context.messages.length - 1]).toMatchObject({
+          sender: MessageSender.AVATAR,
+          status: "completed",
+        })
+      );
+    });
+
+    it("ignores the transcription of a message that was just typed", async () => {
+      const session = await startSession();
+
+      act(() => {
+        context.addTypedMessage("typed and heard");
+        session.simulateUserSpeech("typed and heard");
+      });
+
+      await waitFor(() => expect(session.spoken).toContain("You said: typed and heard."));
+      expect(userMessages(context, "typed and heard")).toHaveLength(1);
+    });
+  });
+
+  describe("voice turns", () => {
+    it("answers a transcription", async () => {
+      const session = await startSession();
+
+      act(() => session.simulateUserSpeech("spoken question"));
+
+      await waitFor(() => expect(session.spoken).toContain("You said: spoken question."));
+      expect(userMessages(context, "spoken question")[0].source).toBe("voice");
+    });
+
+    it("drops a transcription that arrives twice", async () => {
+      const session = await startSession();
+
+      act(() => {
+        session.simulateUserSpeech("said twice");
+        session.simulateUserSpeech("said twice");
+      });
+
+      await waitFor(() => expect(session.spoken).toContain("You said: said twice."));
+      expect(userMessages(context, "said twice")).toHaveLength(1);
+    });
+
+    it("ignores what it hears while the avatar is speaking", async () => {
+      // Slow enough to talk over
+      const session = await startSession({ speakMsPerChar: 30 });
+
+      act(() => session.simulateUserSpeech("long answer please"));
+      await waitFor(() => expect(context.isAvatarTalking).toBe(true));
+
+      act(() => session.simulateUserSpeech("the avatar's own voice"));
+
+      await waitFor(() => expect(context.isAvatarTalking).toBe(false), { timeout: 5000 });
+      expect(userMessages(context, "the avatar's own voice")).toHaveLength(0);
+    }, 10000);
+  });
+
+  it("cancels the turn and drops queued speech when interrupted", async () => {
+    const session = await startSession();
+
+    act(() => context.addTypedMessage("slow question to interrupt"));
+    await waitFor(() => expect(session.spoken).toContain(FILLER));
+    act(() => context.interruptTurn());
+
+    await waitFor(() => expect(context.turnPhase).toBe("listening"));
+    await sleep(1200);
+    expect(session.interruptCount).toBe(1);
+    expect(session.spoken).not.toContain("Worth the wait.");
+    expect(context.messages[context.messages.length - 1]).toMatchObject({
+      sender: MessageSender.AVATAR,
+      status: "cancelled",
+    });
+  });
+
+  describe("filler lines", () => {
+    it("says a filler line when the reply is slow", async () => {
+      const session = await startSession();
+
+      act(() => context.addTypedMessage("slow question"));
+
+      await waitFor(() => expect(session.spoken).toContain("Worth the wait."), { timeout: 3000 });
+      expect(session.spoken.slice(1)).toEqual([FILLER, "Worth the wait."]);
+    });
+
+    it("stays quiet when the reply is quick", async () => {
+      const session = await startSession();
+
+      act(() => context.addTypedMessage("quick question"));
+
+      await waitFor(() => expect(session.spoken).toContain("Right away."));
+      await sleep(narration.initialDelayMs + 100);
+      expect(session.spoken).not.toContain(FILLER);
+    });
+  });
+});
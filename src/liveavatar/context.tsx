@@ -17,65 +17,65 @@ import {
   VoiceChatState,
   AgentEventsEnum,
 } from "@heygen/liveavatar-web-sdk";
-import { LiveAvatarSessionMessage, MessageSender } from "./types";
+import {
+  AgentActivityEntry,
+  LiveAvatarSessionFactory,
+  LiveAvatarSessionMessage,
+  MessageSender,
+} from "./types";
+import { createMessage, isInProgress, upgradeMessage } from "./messages";
 import { LIVEAVATAR_API_URL } from "../../app/api/config";
 import {
   OpenClawGatewayClient,
   getGatewayClient,
 } from "../gateway/client";
-import { GatewayConnectionState } from "../gateway/types";
-
-/**
- * Truncate text for TTS to avoid overwhelming the avatar with long responses.
- * Keeps approximately 2-3 sentences (around 200 characters max).
- */
-const truncateForTTS = (text: string, maxLength: number = 200): string => {
-  if (text.length <= maxLength) {
-    return text;
-  }
-
-  // Try to cut at a sentence boundary
-  const truncated = text.substring(0, maxLength);
-
-  // Find the last sentence ending (., !, ?)
-  const lastSentenceEnd = Math.max(
-    truncated.lastIndexOf(". "),
-    truncated.lastIndexOf("! "),
-    truncated.lastIndexOf("? "),
-    truncated.lastIndexOf(".\n"),
-    truncated.lastIndexOf("!\n"),
-    truncated.lastIndexOf("?\n")
-  );
-
-  if (lastSentenceEnd > maxLength * 0.5) {
-    // Cut at sentence boundary if it's past halfway
-    return truncated.substring(0, lastSentenceEnd + 1).trim();
-  }
-
-  // Otherwise cut at last space and add ellipsis
-  const lastSpace = truncated.lastIndexOf(" ");
-  if (lastSpace > maxLength * 0.7) {
-    return truncated.substring(0, lastSpace).trim() + "...";
-  }
-
-  return truncated.trim() + "...";
-};
-
-/**
- * Placeholder phrases to speak when OpenClaw takes longer than 2 seconds to respond
- */
-const PROCESSING_PHRASES = [
-  "Let me think about that...",
-  "One moment please...",
-  "Let me check on that...",
-  "Give me a second...",
-  "Looking into that...",
-  "Hmm, let me see...",
-];
-
-const getRandomProcessingPhrase = (): string => {
-  return PROCESSING_PHRASES[Math.floor(Math.random() * PROCESSING_PHRASES.length)];
-};
+import {
+  GatewayConnectionState,
+  GatewaySessionSelection,
+} from "../gateway/types";
+import { SpeechQueue } from "./speechQueue";
+import { DEFAULT_NARRATION_CONFIG, NarrationConfig } from "./narration";
+import { getOutbox } from "./outbox";
+import { TurnOrchestrator, TurnPhase } from "./turnOrchestrator";
+import { getAvatarPreferences, saveAvatarPreferences } from "./avatarPreferences";
+import { LexiconEntry, loadLexicon, saveLexicon } from "./lexicon";
+import { ReadAloudPlayer, ReadAloudState } from "./readAloud";
+import { SpeechLog } from "./speechLog";
+import { LatencyStats, LatencyTracker } from "./latency";
+import { MediaStatsSample, MediaStatsSampler, QualityChange } from "./mediaStats";
+import {
+  DEFAULT_DEGRADATION_CONFIG,
+  DegradationConfig,
+  DegradationPolicy,
+  DegradationState,
+  Presentation,
+} from "./degradation";
+import {
+  DEFAULT_IDLE_SETTINGS,
+  IdlePolicy,
+  IdleSettings,
+  IdleState,
+  loadIdleSettings,
+  saveIdleSettings,
+} from "./idle";
+import { ExportFormat, downloadConversation } from "./transcriptExport";
+import {
+  DEMO_SESSION_KEY,
+  Transcript,
+  TranscriptSummary,
+  clearTranscripts,
+  createTranscriptId,
+  deleteTranscript,
+  getLatestTranscript,
+  getTranscript,
+  listTranscripts,
+  saveTranscript,
+} from "./transcriptStore";
+import {
+  DEFAULT_RESPONSE_FORMAT,
+  ResponseFormat,
+} from "../gateway/responseFormat";
+import { DEFAULT_SPEECH_POLICY, SpeechPolicy } from "../gateway/speechStream";
 
 /**
  * Intro phrases for when the avatar session starts
@@ -115,12 +115,65 @@ type LiveAvatarContextProps = {
 
   messages: LiveAvatarSessionMessage[];
   addMessage: (message: LiveAvatarSessionMessage) => void;
+  // Change a message in place, e.g. a reply as it streams in
+  updateMessage: (id: string, update: Partial<LiveAvatarSessionMessage>) => void;
   addTypedMessage: (text: string) => void;
 
   // OpenClaw Gateway state
   gatewayState: GatewayConnectionState;
+  reconnectAttempt: number;
+  retryGateway: () => void;
   isProcessingAgent: boolean;
   isDemoMode: boolean;
+  // Tool calls and reasoning of the turn in progress
+  agentActivity: AgentActivityEntry[];
+  // Where the current turn is, and how many more are waiting behind it
+  turnPhase: TurnPhase;
+  pendingTurns: number;
+  // Stop the avatar, drop what it was still going to say and cancel the
+  // running turn, same as barge-in
+  interruptTurn: () => void;
+  // Agent and session the avatar is talking to
+  gatewaySession: GatewaySessionSelection;
+  selectGatewaySession: (selection: GatewaySessionSelection | null) => void;
+  // How much of each reply the avatar says
+  speechPolicy: SpeechPolicy;
+  setSpeechPolicy: (policy: SpeechPolicy) => void;
+  // Pronunciation fixes applied to everything the avatar says
+  lexicon: LexiconEntry[];
+  updateLexicon: (entries: LexiconEntry[]) => Promise<void>;
+  previewPronunciation: (entry: LexiconEntry) => void;
+  // Saved conversations, most recent first, and the one in the chat
+  conversations: TranscriptSummary[];
+  currentConversationId: string | null;
+  openConversation: (id: string) => void;
+  startNewConversation: () => void;
+  deleteConversation: (id: string) => void;
+  clearConversations: () => void;
+  exportConversation: (format: ExportFormat) => void;
+  // Reading a whole chat message out loud
+  readAloud: ReadAloudState | null;
+  startReadAloud: (message: LiveAvatarSessionMessage) => void;
+  pauseReadAloud: () => void;
+  resumeReadAloud: () => void;
+  skipReadAloud: () => void;
+  stopReadAloud: () => void;
+  // Rolling per-stage turn latency, for the diagnostics overlay
+  latencyStats: LatencyStats;
+  // WebRTC stats for the last few minutes and connection quality changes
+  mediaStats: MediaStatsSample[];
+  qualityLog: QualityChange[];
+  // Video, audio-only or text-only, stepped down on a poor connection
+  degradation: DegradationState;
+  setPresentation: (presentation: Presentation) => void;
+  acceptPresentationSuggestion: () => void;
+  dismissPresentationSuggestion: () => void;
+  // Keep-alive and auto-end when the user has gone away
+  idleSettings: IdleSettings;
+  updateIdleSettings: (settings: IdleSettings) => Promise<void>;
+  idle: IdleState;
+  // The user answered "are you still there?"
+  confirmPresence: () => void;
 };
 
 export const LiveAvatarContext = createContext<LiveAvatarContextProps>({
@@ -136,17 +189,80 @@ export const LiveAvatarContext = createContext<LiveAvatarContextProps>({
   isAvatarTalking: false,
   messages: [],
   addMessage: () => {},
+  updateMessage: () => {},
   addTypedMessage: () => {},
   gatewayState: "disconnected",
+  reconnectAttempt: 0,
+  retryGateway: () => {},
   isProcessingAgent: false,
   isDemoMode: true,
+  agentActivity: [],
+  turnPhase: "listening",
+  pendingTurns: 0,
+  interruptTurn: () => {},
+  gatewaySession: { agentId: null, sessionKey: null },
+  selectGatewaySession: () => {},
+  speechPolicy: DEFAULT_SPEECH_POLICY,
+  setSpeechPolicy: () => {},
+  lexicon: [],
+  updateLexicon: async () => {},
+  previewPronunciation: () => {},
+  conversations: [],
+  currentConversationId: null,
+  openConversation: () => {},
+  startNewConversation: () => {},
+  deleteConversation: () => {},
+  clearConversations: () => {},
+  exportConversation: () => {},
+  readAloud: null,
+  startReadAloud: () => {},
+  pauseReadAloud: () => {},
+  resumeReadAloud: () => {},
+  skipReadAloud: () => {},
+  stopReadAloud: () => {},
+  latencyStats: {},
+  mediaStats: [],
+  qualityLog: [],
+  degradation: { presentation: "video", degraded: false, suggestion: null },
+  setPresentation: () => {},
+  acceptPresentationSuggestion: () => {},
+  dismissPresentationSuggestion: () => {},
+  idleSettings: DEFAULT_IDLE_SETTINGS,
+  updateIdleSettings: async () => {},
+  idle: { endsAt: null },
+  confirmPresence: () => {},
 });
 
 type LiveAvatarContextProviderProps = {
   children: React.ReactNode;
   sessionAccessToken: string;
+  // Speak agent replies sentence-by-sentence as they stream in
+  streamSpeech?: boolean;
+  // Let the user interrupt the avatar by talking over it. Off by default since
+  // without echo cancellation the avatar's own voice can trigger it
+  bargeIn?: boolean;
+  // Spoken progress lines driven by agent tool events, false to stay silent
+  narration?: NarrationConfig | false;
+  // Spoken summary instructions sent with each turn, false to send none
+  // and speak the first sentences of the reply instead
+  responseFormat?: ResponseFormat;
+  // Step down to audio-only and text-only on a poor connection (or offer to),
+  // false to always show the video
+  degradation?: DegradationConfig | false;
+  // Keep the session alive while the user is around and end it once they've
+  // gone (as set up in settings), false to leave it running
+  idleTimeout?: boolean;
+  // Avatar the session was started with, used to look up its remembered settings
+  avatarId?: string;
+  // Override how the session is built, e.g. createFakeSession() to run without HeyGen
+  createSession?: LiveAvatarSessionFactory;
 };
 
+const createLiveAvatarSession: LiveAvatarSessionFactory = (
+  sessionAccessToken,
+  config
+) => new LiveAvatarSession(sessionAccessToken, config);
+
 const useSessionState = (sessionRef: React.RefObject<LiveAvatarSession>) => {
   const [sessionState, setSessionState] = useState<SessionState>(
     sessionRef.current?.state || SessionState.INACTIVE
@@ -227,100 +343,21 @@ const useTalkingState = (sessionRef: React.RefObject<LiveAvatarSession>) => {
   return { isUserTalking, isAvatarTalking };
 };
 
-/**
- * Demo mode FAQ responses - comprehensive guide to the OpenClaw LiveAvatar integration
- */
-const getDemoResponse = (text: string): string => {
-  const lowerText = text.toLowerCase().trim();
-
-  // Greetings
-  if (lowerText.match(/^(hi|hello|hey|greetings|good morning|good afternoon|good evening)\.?$/)) {
-    return "Hello! Welcome to the OpenClaw LiveAvatar integration demo. I'm here to show you how this works. Try asking me 'what is this?' or 'how does it work?' to learn more!";
-  }
-
-  // What is this / Introduction
-  if (lowerText.includes("what is this") || lowerText.includes("what are you") || lowerText.includes("who are you")) {
-    return "I'm a LiveAvatar - a real-time AI video avatar that serves as your voice and video interface to OpenClaw agents. Think of me as a friendly face for your AI assistant. When connected to OpenClaw, I'll speak your agent's responses and listen to your voice commands!";
-  }
-
-  // How does it work
-  if (lowerText.includes("how does it work") || lowerText.includes("how do you work") || lowerText.includes("explain")) {
-    return "Here's how it works: You speak to me or type a message. Your input goes to your OpenClaw agent, which processes it and generates a response. Then I speak that response back to you with natural lip-sync and expressions. It's like having a video call with your AI agent!";
-  }
-
-  // What is OpenClaw
-  if (lowerText.includes("openclaw") && (lowerText.includes("what") || lowerText.includes("tell me about"))) {
-    return "OpenClaw is an AI agent platform that lets you build and deploy intelligent assistants. These agents can handle tasks, answer questions, and integrate with your tools. This LiveAvatar integration adds a human-like video interface to make interactions more engaging and natural.";
-  }
-
-  // What is LiveAvatar
-  if (lowerText.includes("liveavatar") && (lowerText.includes("what") || lowerText.includes("tell me about"))) {
-    return "LiveAvatar is powered by HeyGen's streaming avatar technology. It creates real-time, photorealistic AI avatars that can speak any text with natural expressions and lip-sync. Combined with OpenClaw, it transforms text-based AI interactions into face-to-face conversations.";
-  }
-
-  // Help / Commands
-  if (lowerText === "help" || lowerText.includes("what can i ask") || lowerText.includes("what can you do") || lowerText.includes("commands")) {
-    return "In demo mode, you can ask me about: 'What is this?', 'How does it work?', 'What is OpenClaw?', 'What is LiveAvatar?', 'How do I connect?', 'Features', 'Requirements', 'Pricing', or 'Get started'. Once connected to OpenClaw, I'll respond with your actual agent's intelligence!";
-  }
-
-  // How to connect / Setup
-  if (lowerText.includes("connect") || lowerText.includes("setup") || lowerText.includes("get started") || lowerText.includes("install")) {
-    return "To connect to your OpenClaw agent: First, make sure OpenClaw is running on your computer with the Gateway enabled on port 18789. Then refresh this page - I'll automatically detect the connection and switch from demo mode to live mode. You'll see the status change from 'Demo Mode' to 'OpenClaw Connected'.";
-  }
-
-  // Features
-  if (lowerText.includes("feature")) {
-    return "Key features include: Voice-to-voice conversations with your AI agent, real-time video avatar with natural expressions, text chat as an alternative to voice, multiple avatar options to choose from, and seamless integration with your OpenClaw workflows. It's like giving your AI a face!";
-  }
-
-  // Requirements
-  if (lowerText.includes("requirement") || lowerText.includes("need") || lowerText.includes("prerequisite")) {
-    return "To use this integration you'll need: An OpenClaw account with an active agent, the OpenClaw Gateway running locally, a LiveAvatar API key from HeyGen, a modern browser with microphone access, and a stable internet connection for the video stream.";
-  }
-
-  // Pricing / Cost
-  if (lowerText.includes("price") || lowerText.includes("cost") || lowerText.includes("free") || lowerText.includes("pricing")) {
-    return "LiveAvatar sessions consume HeyGen credits based on session duration. OpenClaw has its own pricing for agent usage. Check openclaw.ai and heygen.com for current pricing. This demo mode is free to try and shows you exactly how the integration works!";
-  }
-
-  // Demo mode explanation
-  if (lowerText.includes("demo mode") || lowerText.includes("demo")) {
-    return "You're currently in demo mode because no OpenClaw Gateway connection was detected. In this mode, I respond with pre-set information about the integration. Once you connect to OpenClaw, I'll relay your messages to your actual AI agent and speak its responses!";
-  }
-
-  // Voice / Microphone
-  if (lowerText.includes("voice") || lowerText.includes("microphone") || lowerText.includes("speak") || lowerText.includes("talk")) {
-    return "You can talk to me using your microphone! Click the green microphone button to unmute, then just speak naturally. I'll transcribe what you say, process it, and respond verbally. You can also type in the chat box if you prefer text input.";
-  }
-
-  // Avatar / Change avatar
-  if (lowerText.includes("avatar") || lowerText.includes("change") || lowerText.includes("appearance")) {
-    return "You can change my appearance by clicking the person icon in the bottom right of the video. This opens the avatar selector where you can choose from different available avatars. Each avatar has its own look and voice!";
-  }
-
-  // Goodbye
-  if (lowerText.includes("bye") || lowerText.includes("goodbye") || lowerText.includes("see you") || lowerText.includes("thanks")) {
-    return "Thank you for trying the OpenClaw LiveAvatar demo! When you're ready to use it with your actual OpenClaw agent, just start the Gateway and refresh this page. Have a great day!";
-  }
-
-  // Default response for unrecognized input
-  return `I heard: "${text}". I'm currently in demo mode, showing you how this integration works. Try asking me about 'what is this?', 'how does it work?', or type 'help' for more options. Once connected to OpenClaw, your agent will provide intelligent responses to any question!`;
-};
-
 /**
  * Hook to bridge LiveAvatar transcriptions to OpenClaw Gateway (or demo mode)
  * When user speaks, send to OpenClaw agent and make avatar speak the response
  */
 const useOpenClawBridge = (
   sessionRef: React.RefObject<LiveAvatarSession>,
-  addMessage: (message: LiveAvatarSessionMessage) => void,
   recentTypedMessages: React.RefObject<Set<string>>,
   recentMessagesRef: React.RefObject<Set<string>>,
-  isAvatarTalkingRef: React.RefObject<boolean>
+  isAvatarTalkingRef: React.RefObject<boolean>,
+  orchestratorRef: React.RefObject<TurnOrchestrator | null>,
+  bargeIn: boolean
 ) => {
   const [gatewayState, setGatewayState] = useState<GatewayConnectionState>("disconnected");
-  const [isProcessingAgent, setIsProcessingAgent] = useState(false);
   const [isDemoMode, setIsDemoMode] = useState(true); // Start in demo mode, switch if Gateway connects
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const gatewayRef = useRef<OpenClawGatewayClient | null>(null);
 
   // Try to connect to OpenClaw Gateway on mount
@@ -328,39 +365,74 @@ const useOpenClawBridge = (
   useEffect(() => {
     const gateway = getGatewayClient();
     gatewayRef.current = gateway;
+    // Once live, a dropped connection shows as reconnecting/disconnected
+    // with a retry option rather than silently switching to demo answers
+    let hasConnected = false;
 
-    gateway.onConnectionState((state) => {
+    const handleConnectionState = (state: GatewayConnectionState) => {
       setGatewayState(state);
+      setReconnectAttempt(gateway.reconnectAttempt);
       // If we successfully connect, disable demo mode
       if (state === "connected") {
         console.log("[OpenClaw] Gateway connected - switching to live mode");
+        hasConnected = true;
         setIsDemoMode(false);
       }
-      // If we disconnect/error after being connected, fall back to demo mode
-      if (state === "disconnected" || state === "error") {
-        console.log("[OpenClaw] Gateway disconnected - falling back to demo mode");
+      // Never reached the gateway - stay in demo mode
+      if ((state === "disconnected" || state === "error") && !hasConnected) {
         setIsDemoMode(true);
       }
-    });
+    };
+    gateway.onConnectionState(handleConnectionState);
+    // The landing page may already have connected the shared client
+    handleConnectionState(gateway.state);
 
     // Try to connect to gateway
     gateway.connect().catch((err) => {
-      console.log("[OpenClaw] Gateway not available, staying in demo mode:", err.message);
-      setIsDemoMode(true);
+      console.log("[OpenClaw] Gateway not available:", err.message);
     });
 
     return () => {
+      gateway.offConnectionState(handleConnectionState);
       gateway.disconnect();
     };
   }, []);
 
-  // Listen to user transcriptions and respond
+  const retryGateway = useCallback(() => {
+    gatewayRef.current?.retry().catch((err) => {
+      console.log("[OpenClaw] Gateway retry failed:", err.message);
+    });
+  }, []);
+
+  // Barge-in: stop the avatar and cancel the running turn when the user talks over it
+  useEffect(() => {
+    const session = sessionRef.current;
+    if (!session || !bargeIn) return;
+
+    const handleUserSpeakStarted = () => {
+      if (!isAvatarTalkingRef.current) return;
+
+      console.log("[Voice] Barge-in - interrupting avatar and cancelling turn");
+      orchestratorRef.current?.interrupt();
+
+      // Let the new utterance through even if AVATAR_SPEAK_ENDED hasn't arrived yet
+      isAvatarTalkingRef.current = false;
+    };
+
+    session.on(AgentEventsEnum.USER_SPEAK_STARTED, handleUserSpeakStarted);
+
+    return () => {
+      session.off(AgentEventsEnum.USER_SPEAK_STARTED, handleUserSpeakStarted);
+    };
+  }, [sessionRef, isAvatarTalkingRef, orchestratorRef, bargeIn]);
+
+  // Listen to user transcriptions and hand them to the turn orchestrator
   useEffect(() => {
     const session = sessionRef.current;
     if (!session) return;
 
     // Handler for user transcriptions
-    const handleUserTranscription = async (data: {
+    const handleUserTranscription = (data: {
       text?: string;
       transcript?: string;
     }) => {
@@ -387,109 +459,7 @@ const useOpenClawBridge = (
       recentMessagesRef.current?.add(messageKey);
       setTimeout(() => recentMessagesRef.current?.delete(messageKey), 3000);
 
-      // Add user message to chat
-      addMessage({
-        sender: MessageSender.USER,
-        message: text,
-        timestamp: Date.now(),
-      });
-
-      try {
-        setIsProcessingAgent(true);
-
-        let responseText: string;
-        let placeholderSpoken = false;
-
-        if (isDemoMode) {
-          // Demo mode: use comprehensive FAQ responses
-          console.log("[Demo] Processing voice message locally:", text);
-          responseText = getDemoResponse(text);
-        } else {
-          // Production mode: send to OpenClaw Gateway
-          const gateway = gatewayRef.current;
-          if (!gateway || gateway.state !== "connected") {
-            console.warn("[OpenClaw] Gateway not connected, cannot send message");
-            responseText = "I'm not connected to the agent. Please check the Gateway connection.";
-          } else {
-            console.log("[OpenClaw] Sending to agent:", text);
-
-            // Set up placeholder timeout - speak a filler if response takes > 2s
-            let placeholderTimeout: NodeJS.Timeout | null = null;
-            if (session && session.state === SessionState.CONNECTED) {
-              placeholderTimeout = setTimeout(async () => {
-                const placeholder = getRandomProcessingPhrase();
-                console.log("[Avatar] Speaking placeholder (slow response):", placeholder);
-                placeholderSpoken = true;
-                try {
-                  await session.repeat(placeholder);
-                } catch (err) {
-                  console.error("[Avatar] Failed to speak placeholder:", err);
-                }
-              }, 2000);
-            }
-
-            const response = await gateway.sendToAgent(text);
-
-            // Clear placeholder timeout if response came back in time
-            if (placeholderTimeout) {
-              clearTimeout(placeholderTimeout);
-            }
-
-            console.log("[OpenClaw] Agent response:", response);
-
-            if (response.status === "completed" && response.text) {
-              responseText = response.text;
-            } else {
-              responseText = "Sorry, I didn't get a response from the agent.";
-            }
-          }
-        }
-
-        // Parse response to extract TTS summary and full message
-        const gateway = gatewayRef.current;
-        let ttsText = responseText;
-        let displayText = responseText;
-
-        if (!isDemoMode && gateway) {
-          const parsed = gateway.parseResponse(responseText);
-          ttsText = parsed.tts;
-          displayText = parsed.full;
-        } else {
-          // Demo mode: just truncate for TTS
-          ttsText = truncateForTTS(responseText);
-        }
-
-        // Add full response to chat (without the TTS block)
-        addMessage({
-          sender: MessageSender.AVATAR,
-          message: displayText,
-          timestamp: Date.now(),
-        });
-
-        // Make avatar speak - only the TTS summary
-        // If placeholder was spoken, wait a moment before speaking the actual response
-        if (session && session.state === SessionState.CONNECTED) {
-          try {
-            if (placeholderSpoken) {
-              // Small delay to let placeholder finish
-              await new Promise(resolve => setTimeout(resolve, 500));
-            }
-            console.log("[Avatar] Speaking TTS summary:", ttsText);
-            await session.repeat(ttsText);
-          } catch (speakErr) {
-            console.error("[Avatar] Failed to make avatar speak:", speakErr);
-          }
-        }
-      } catch (err) {
-        console.error("[Chat] Failed to process voice message:", err);
-        addMessage({
-          sender: MessageSender.AVATAR,
-          message: "Sorry, I couldn't process that. Please try again.",
-          timestamp: Date.now(),
-        });
-      } finally {
-        setIsProcessingAgent(false);
-      }
+      orchestratorRef.current?.submit({ text, source: "voice" });
     };
 
     // Register listener for user transcription
@@ -498,14 +468,22 @@ const useOpenClawBridge = (
     return () => {
       session.off(AgentEventsEnum.USER_TRANSCRIPTION, handleUserTranscription);
     };
-  }, [sessionRef, addMessage, recentTypedMessages, recentMessagesRef, isDemoMode]);
+  }, [sessionRef, recentTypedMessages, recentMessagesRef, isAvatarTalkingRef, orchestratorRef]);
 
-  return { gatewayState, isProcessingAgent, isDemoMode };
+  return { gatewayState, reconnectAttempt, retryGateway, isDemoMode };
 };
 
 export const LiveAvatarContextProvider = ({
   children,
   sessionAccessToken,
+  streamSpeech = true,
+  bargeIn = false,
+  narration = DEFAULT_NARRATION_CONFIG,
+  responseFormat = DEFAULT_RESPONSE_FORMAT,
+  degradation: degradationConfig = DEFAULT_DEGRADATION_CONFIG,
+  idleTimeout = true,
+  avatarId,
+  createSession = createLiveAvatarSession,
 }: LiveAvatarContextProviderProps) => {
   // Voice chat config - start unmuted so user can speak immediately
   const config = {
@@ -515,10 +493,24 @@ export const LiveAvatarContextProvider = ({
     apiUrl: LIVEAVATAR_API_URL,
   };
   const sessionRef = useRef<LiveAvatarSession>(
-    new LiveAvatarSession(sessionAccessToken, config)
+    createSession(sessionAccessToken, config)
   );
 
-  const [messages, setMessages] = useState<LiveAvatarSessionMessage[]>([]);
+  // Turns still waiting in the outbox from a previous page load are shown as queued
+  const [messages, setMessages] = useState<LiveAvatarSessionMessage[]>(() =>
+    getOutbox()
+      .list()
+      .map((entry) =>
+        createMessage({
+          sender: MessageSender.USER,
+          message: entry.text,
+          timestamp: entry.createdAt,
+          status: "pending",
+          outboxId: entry.id,
+          delivery: "queued",
+        })
+      )
+  );
 
   // Track recently typed messages to avoid duplicates from transcription events
   const recentTypedMessagesRef = useRef<Set<string>>(new Set());
@@ -529,6 +521,98 @@ export const LiveAvatarContextProvider = ({
     setMessages((prev) => [...prev, message]);
   }, []);
 
+  const updateMessage = useCallback(
+    (id: string, update: Partial<LiveAvatarSessionMessage>) => {
+      setMessages((prev) =>
+        prev.map((message) => (message.id === id ? { ...message, ...update } : message))
+      );
+    },
+    []
+  );
+
+  const setDelivery = useCallback(
+    (outboxId: string, delivery: LiveAvatarSessionMessage["delivery"]) => {
+      const status = delivery === "failed" ? "failed" : "completed";
+      setMessages((prev) =>
+        prev.map((message) =>
+          message.outboxId === outboxId ? { ...message, delivery, status } : message
+        )
+      );
+    },
+    []
+  );
+
+  // All avatar speech goes through one queue so replies never overlap
+  const speechQueueRef = useRef<SpeechQueue | null>(null);
+  useEffect(() => {
+    const queue = new SpeechQueue(sessionRef.current);
+    speechQueueRef.current = queue;
+    return () => {
+      queue.dispose();
+      speechQueueRef.current = null;
+    };
+  }, [sessionRef]);
+
+  // When the avatar and the user actually spoke, for caption exports
+  const speechLogRef = useRef<SpeechLog | null>(null);
+  useEffect(() => {
+    const speechQueue = speechQueueRef.current;
+    if (!speechQueue) return;
+    const log = new SpeechLog(sessionRef.current, () => speechQueue.speaking);
+    speechLogRef.current = log;
+    return () => {
+      log.dispose();
+      speechLogRef.current = null;
+    };
+  }, [sessionRef]);
+
+  const [readAloud, setReadAloud] = useState<ReadAloudState | null>(null);
+  const readAloudRef = useRef<ReadAloudPlayer | null>(null);
+  useEffect(() => {
+    const speechQueue = speechQueueRef.current;
+    if (!speechQueue) return;
+    const player = new ReadAloudPlayer(sessionRef.current, speechQueue, setReadAloud);
+    readAloudRef.current = player;
+    return () => {
+      player.dispose();
+      readAloudRef.current = null;
+    };
+  }, [sessionRef]);
+
+  const startReadAloud = useCallback((message: LiveAvatarSessionMessage) => {
+    readAloudRef.current?.start(message);
+  }, []);
+  const pauseReadAloud = useCallback(() => readAloudRef.current?.pause(), []);
+  const resumeReadAloud = useCallback(() => readAloudRef.current?.resume(), []);
+  const skipReadAloud = useCallback(() => readAloudRef.current?.skip(), []);
+  const stopReadAloud = useCallback(() => readAloudRef.current?.stop(), []);
+
+  const [lexicon, setLexicon] = useState<LexiconEntry[]>([]);
+  useEffect(() => {
+    loadLexicon()
+      .then(setLexicon)
+      .catch((err) => console.error("[Lexicon] Failed to load lexicon:", err));
+  }, []);
+
+  // Also re-applied when the speech queue is recreated for a new session
+  useEffect(() => {
+    speechQueueRef.current?.setLexicon(lexicon);
+  }, [lexicon, sessionRef]);
+
+  const updateLexicon = useCallback(async (entries: LexiconEntry[]) => {
+    await saveLexicon(entries);
+    setLexicon(entries);
+  }, []);
+
+  // Say an entry (saved or not) so it can be checked by ear
+  const previewPronunciation = useCallback((entry: LexiconEntry) => {
+    if (entry.regex) {
+      speechQueueRef.current?.enqueue(entry.spoken, { lexicon: [] });
+    } else {
+      speechQueueRef.current?.enqueue(entry.match, { lexicon: [entry] });
+    }
+  }, []);
+
   const { sessionState, isStreamReady, connectionQuality } =
     useSessionState(sessionRef);
 
@@ -541,25 +625,440 @@ export const LiveAvatarContextProvider = ({
     isAvatarTalkingRef.current = isAvatarTalking;
   }, [isAvatarTalking]);
 
+  // Hold a user turn in the outbox while the gateway is unreachable
+  const queueOfflineTurn = useCallback(
+    (text: string, source: "voice" | "typed") => {
+      const entry = getOutbox().add(text, getGatewayClient().session.sessionKey);
+      console.log("[Outbox] Gateway offline, queued message:", text);
+      addMessage(
+        createMessage({
+          sender: MessageSender.USER,
+          message: text,
+          timestamp: entry.createdAt,
+          status: "pending",
+          source,
+          outboxId: entry.id,
+          delivery: "queued",
+        })
+      );
+      speechQueueRef.current?.enqueue(
+        "I've lost the connection to the agent. I'll send that as soon as I'm back online."
+      );
+    },
+    [addMessage]
+  );
+
+  // Remembered per avatar, like the gateway session
+  const [speechPolicy, setSpeechPolicyState] = useState<SpeechPolicy>(
+    () => getAvatarPreferences(avatarId).speechPolicy ?? DEFAULT_SPEECH_POLICY
+  );
+  const setSpeechPolicy = useCallback(
+    (policy: SpeechPolicy) => {
+      setSpeechPolicyState(policy);
+      saveAvatarPreferences(avatarId, { speechPolicy: policy });
+    },
+    [avatarId]
+  );
+
+  const [agentActivity, setAgentActivity] = useState<AgentActivityEntry[]>([]);
+  const [turnPhase, setTurnPhase] = useState<TurnPhase>("listening");
+  const [pendingTurns, setPendingTurns] = useState(0);
+
+  const [latencyStats, setLatencyStats] = useState<LatencyStats>({});
+  const latencyRef = useRef<LatencyTracker | null>(null);
+  useEffect(() => {
+    const tracker = new LatencyTracker(sessionRef.current, setLatencyStats);
+    latencyRef.current = tracker;
+    return () => {
+      tracker.dispose();
+      latencyRef.current = null;
+    };
+  }, [sessionRef]);
+
+  const [mediaStats, setMediaStats] = useState<MediaStatsSample[]>([]);
+  const [qualityLog, setQualityLog] = useState<QualityChange[]>([]);
+  useEffect(() => {
+    const sampler = new MediaStatsSampler(sessionRef.current, (samples, log) => {
+      setMediaStats(samples);
+      setQualityLog(log);
+    });
+    return () => sampler.dispose();
+  }, [sessionRef]);
+
+  const [degradation, setDegradation] = useState<DegradationState>({
+    presentation: "video",
+    degraded: false,
+    suggestion: null,
+  });
+  const degradationRef = useRef<DegradationPolicy | null>(null);
+  useEffect(() => {
+    if (!degradationConfig) return;
+    const policy = new DegradationPolicy(sessionRef.current, setDegradation, degradationConfig);
+    degradationRef.current = policy;
+    return () => {
+      policy.dispose();
+      degradationRef.current = null;
+    };
+  }, [sessionRef, degradationConfig]);
+
+  const setPresentation = useCallback((presentation: Presentation) => {
+    if (degradationRef.current) {
+      degradationRef.current.setPresentation(presentation);
+    } else {
+      setDegradation({ presentation, degraded: false, suggestion: null });
+    }
+  }, []);
+  const acceptPresentationSuggestion = useCallback(
+    () => degradationRef.current?.acceptSuggestion(),
+    []
+  );
+  const dismissPresentationSuggestion = useCallback(
+    () => degradationRef.current?.dismissSuggestion(),
+    []
+  );
+
+  // Text-only keeps the conversation going without the avatar speaking
+  const isTextOnly = degradation.presentation === "text-only";
+  useEffect(() => {
+    if (isTextOnly) readAloudRef.current?.stop();
+    speechQueueRef.current?.setMuted(isTextOnly);
+  }, [isTextOnly]);
+
+  const [idleSettings, setIdleSettings] = useState<IdleSettings>(DEFAULT_IDLE_SETTINGS);
+  useEffect(() => {
+    loadIdleSettings()
+      .then(setIdleSettings)
+      .catch((err) => console.error("[Idle] Failed to load idle settings:", err));
+  }, []);
+
+  const updateIdleSettings = useCallback(async (settings: IdleSettings) => {
+    await saveIdleSettings(settings);
+    setIdleSettings(settings);
+  }, []);
+
+  const [idle, setIdle] = useState<IdleState>({ endsAt: null });
+  const idleRef = useRef<IdlePolicy | null>(null);
+  useEffect(() => {
+    if (!idleTimeout) return;
+    const session = sessionRef.current;
+    const policy = new IdlePolicy(
+      session,
+      {
+        onChange: setIdle,
+        onWarn: () => {
+          speechQueueRef.current?.enqueue(
+            "Are you still there? I'll end our session soon if I don't hear from you."
+          );
+        },
+        onTimeout: () => {
+          session.stop().catch((err) => {
+            console.error("[Idle] Failed to end the session:", err);
+          });
+        },
+      },
+      DEFAULT_IDLE_SETTINGS
+    );
+    idleRef.current = policy;
+
+    // Anything the user does on the page counts as them being there
+    const handleActivity = () => policy.activity();
+    const events = ["pointerdown", "pointermove", "keydown", "wheel"] as const;
+    events.forEach((event) => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      events.forEach((event) => window.removeEventListener(event, handleActivity));
+      policy.dispose();
+      idleRef.current = null;
+    };
+  }, [sessionRef, idleTimeout]);
+
+  useEffect(() => {
+    idleRef.current?.updateSettings(idleSettings);
+  }, [idleSettings, idleTimeout]);
+
+  const confirmPresence = useCallback(() => idleRef.current?.activity(), []);
+
+  // Voice and typed turns all go through one orchestrator, one at a time
+  const orchestratorRef = useRef<TurnOrchestrator | null>(null);
+  useEffect(() => {
+    const speechQueue = speechQueueRef.current;
+    if (!speechQueue) return;
+
+    const orchestrator = new TurnOrchestrator(
+      sessionRef.current,
+      speechQueue,
+      getGatewayClient(),
+      {
+        addMessage,
+        updateMessage,
+        setDelivery,
+        setActivity: setAgentActivity,
+        queueOffline: queueOfflineTurn,
+        onStateChange: (phase, pending) => {
+          // A new turn takes over from a message being read out
+          if (phase === "sending") readAloudRef.current?.stop();
+          setTurnPhase(phase);
+          setPendingTurns(pending);
+        },
+        onInterrupt: () => readAloudRef.current?.stop(),
+      },
+      // Options are kept up to date by the effect below the bridge
+      {
+        isDemoMode: true,
+        streamSpeech,
+        narration: narration || null,
+        responseFormat,
+        speechPolicy,
+      },
+      latencyRef.current
+    );
+    orchestratorRef.current = orchestrator;
+    return () => {
+      orchestrator.dispose();
+      orchestratorRef.current = null;
+    };
+  }, [sessionRef, addMessage, updateMessage, setDelivery, queueOfflineTurn]);
+
   // Bridge to OpenClaw Gateway - this determines demo mode
-  const { gatewayState, isProcessingAgent: isProcessingVoiceAgent, isDemoMode } = useOpenClawBridge(
+  const {
+    gatewayState,
+    reconnectAttempt,
+    retryGateway,
+    isDemoMode,
+  } = useOpenClawBridge(
     sessionRef,
-    addMessage,
     recentTypedMessagesRef,
     recentMessagesRef,
-    isAvatarTalkingRef
+    isAvatarTalkingRef,
+    orchestratorRef,
+    bargeIn
   );
 
-  // State for tracking if we're processing a typed message
-  const [isProcessingTypedMessage, setIsProcessingTypedMessage] = useState(false);
-  const gatewayClientRef = useRef<OpenClawGatewayClient | null>(null);
-  const hasPlayedIntroRef = useRef(false);
+  useEffect(() => {
+    orchestratorRef.current?.configure({
+      isDemoMode,
+      streamSpeech,
+      narration: narration || null,
+      responseFormat,
+      speechPolicy,
+    });
+  }, [isDemoMode, streamSpeech, narration, responseFormat, speechPolicy]);
+
+  const [gatewaySession, setGatewaySession] = useState<GatewaySessionSelection>(
+    () => getGatewayClient().session
+  );
+
+  // Show the conversation so far (possibly from another OpenClaw channel).
+  // With replace, the chat is swapped for the history of a newly picked session
+  const showGatewayHistory = useCallback((replace: boolean) => {
+    const gateway = getGatewayClient();
+    setGatewaySession(gateway.session);
+    gateway.getHistory().then((entries) => {
+      const history: LiveAvatarSessionMessage[] = entries.map((entry) =>
+        createMessage({
+          sender: entry.role === "user" ? MessageSender.USER : MessageSender.AVATAR,
+          message: entry.text,
+          timestamp: entry.timestamp ?? Date.now(),
+          fromHistory: true,
+        })
+      );
+      setMessages((prev) => [
+        ...history,
+        // Queued turns and replies in progress carry over
+        ...(replace ? prev.filter(isInProgress) : prev),
+      ]);
+    });
+  }, []);
+
+  // Conversation the chat is saved as, created once the user says something
+  const [transcript, setTranscript] = useState<
+    Pick<Transcript, "id" | "sessionKey" | "createdAt"> | null
+  >(null);
+  const [conversations, setConversations] = useState<TranscriptSummary[]>([]);
+
+  const refreshConversations = useCallback(() => {
+    listTranscripts()
+      .then(setConversations)
+      .catch((err) => console.error("[Transcripts] Failed to list conversations:", err));
+  }, []);
+  useEffect(refreshConversations, [refreshConversations]);
 
-  // Store gateway client reference
   useEffect(() => {
-    gatewayClientRef.current = getGatewayClient();
+    const hasUserTurn = messages.some(
+      (message) =>
+        message.sender === MessageSender.USER &&
+        !message.fromHistory &&
+        message.delivery !== "queued"
+    );
+    if (!hasUserTurn) return;
+
+    if (!transcript) {
+      setTranscript({
+        id: createTranscriptId(),
+        sessionKey: isDemoMode
+          ? DEMO_SESSION_KEY
+          : getGatewayClient().session.sessionKey ?? DEMO_SESSION_KEY,
+        createdAt: Date.now(),
+      });
+      return;
+    }
+
+    // Streaming updates come in bursts, save once they settle
+    const timer = setTimeout(() => {
+      const title = messages.find((message) => message.sender === MessageSender.USER);
+      saveTranscript({
+        ...transcript,
+        title: title ? title.message.slice(0, 80) : "Conversation",
+        updatedAt: Date.now(),
+        // Queued turns are restored from the outbox instead, and a reply in
+        // progress is saved once it is done
+        messages: messages.filter((message) => !isInProgress(message)),
+      })
+        .then(refreshConversations)
+        .catch((err) => console.error("[Transcripts] Failed to save conversation:", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [messages, transcript, isDemoMode, refreshConversations]);
+
+  // Put a saved conversation in the chat and keep adding to it
+  const showTranscript = useCallback((saved: Transcript, replace: boolean) => {
+    setTranscript({ id: saved.id, sessionKey: saved.sessionKey, createdAt: saved.createdAt });
+    setGatewaySession(getGatewayClient().session);
+    const restored = saved.messages.map((message) => ({
+      ...upgradeMessage(message),
+      fromHistory: true,
+    }));
+    setMessages((prev) => [
+      ...restored,
+      ...(replace ? prev.filter(isInProgress) : prev),
+    ]);
   }, []);
 
+  // Pick up where this session's last conversation left off, or show the
+  // gateway's history when there is none
+  const showConversation = useCallback(
+    (sessionKey: string | null, replace: boolean) => {
+      const restore = sessionKey
+        ? getLatestTranscript(sessionKey).catch((err) => {
+            console.error("[Transcripts] Failed to load conversation:", err);
+            return null;
+          })
+        : Promise.resolve(null);
+
+      restore.then((saved) => {
+        if (saved) {
+          console.log("[Transcripts] Restoring conversation", saved.id);
+          showTranscript(saved, replace);
+        } else {
+          setTranscript(null);
+          if (sessionKey !== DEMO_SESSION_KEY) showGatewayHistory(replace);
+        }
+      });
+    },
+    [showTranscript, showGatewayHistory]
+  );
+
+  const hasLoadedHistoryRef = useRef(false);
+  useEffect(() => {
+    if (gatewayState !== "connected" || isDemoMode || hasLoadedHistoryRef.current) {
+      return;
+    }
+    hasLoadedHistoryRef.current = true;
+
+    // An avatar can be bound to its own agent or session
+    const gateway = getGatewayClient();
+    gateway.selectSession(getAvatarPreferences(avatarId).gatewaySession ?? null);
+    showConversation(gateway.session.sessionKey, false);
+  }, [gatewayState, isDemoMode, avatarId, showConversation]);
+
+  const selectGatewaySession = useCallback(
+    (selection: GatewaySessionSelection | null) => {
+      const gateway = getGatewayClient();
+      gateway.selectSession(selection);
+      saveAvatarPreferences(avatarId, { gatewaySession: selection ?? undefined });
+      showConversation(gateway.session.sessionKey, true);
+    },
+    [avatarId, showConversation]
+  );
+
+  // Demo mode conversations are restored once the gateway turns out to be unreachable
+  const hasTriedGatewayRef = useRef(false);
+  const hasRestoredDemoRef = useRef(false);
+  useEffect(() => {
+    if (gatewayState === "connecting") hasTriedGatewayRef.current = true;
+    if (!isDemoMode || hasRestoredDemoRef.current || !hasTriedGatewayRef.current) return;
+    if (gatewayState !== "disconnected" && gatewayState !== "error") return;
+    hasRestoredDemoRef.current = true;
+    showConversation(DEMO_SESSION_KEY, false);
+  }, [gatewayState, isDemoMode, showConversation]);
+
+  const openConversation = useCallback(
+    (id: string) => {
+      getTranscript(id)
+        .then((saved) => {
+          if (!saved) return;
+          const gateway = getGatewayClient();
+          // Switch to the gateway session the conversation was held in
+          if (
+            !isDemoMode &&
+            saved.sessionKey !== DEMO_SESSION_KEY &&
+            saved.sessionKey !== gateway.session.sessionKey
+          ) {
+            const selection = {
+              agentId: saved.sessionKey.match(/^agent:([^:]+):/)?.[1] ?? null,
+              sessionKey: saved.sessionKey,
+            };
+            gateway.selectSession(selection);
+            saveAvatarPreferences(avatarId, { gatewaySession: selection });
+          }
+          showTranscript(saved, true);
+        })
+        .catch((err) => console.error("[Transcripts] Failed to open conversation:", err));
+    },
+    [isDemoMode, avatarId, showTranscript]
+  );
+
+  const startNewConversation = useCallback(() => {
+    setTranscript(null);
+    setMessages((prev) => prev.filter(isInProgress));
+  }, []);
+
+  const deleteConversation = useCallback(
+    (id: string) => {
+      deleteTranscript(id)
+        .then(refreshConversations)
+        .catch((err) => console.error("[Transcripts] Failed to delete conversation:", err));
+      if (transcript?.id === id) startNewConversation();
+    },
+    [transcript, refreshConversations, startNewConversation]
+  );
+
+  const clearConversations = useCallback(() => {
+    clearTranscripts()
+      .then(refreshConversations)
+      .catch((err) => console.error("[Transcripts] Failed to clear conversations:", err));
+    startNewConversation();
+  }, [refreshConversations, startNewConversation]);
+
+  const exportConversation = useCallback(
+    (format: ExportFormat) => {
+      const log = speechLogRef.current;
+      const firstTurn = messages.find((message) => message.sender === MessageSender.USER);
+      downloadConversation(
+        {
+          title: firstTurn ? firstTurn.message.slice(0, 80) : "Conversation",
+          sessionKey: transcript?.sessionKey ?? gatewaySession.sessionKey,
+          messages,
+          utterances: log?.utterances ?? [],
+          startedAt: log?.startedAt ?? Date.now(),
+        },
+        format
+      );
+    },
+    [messages, transcript, gatewaySession]
+  );
+
+  const hasPlayedIntroRef = useRef(false);
+
   // Play intro message when stream is ready
   useEffect(() => {
     console.log("[Intro] Effect triggered - isStreamReady:", isStreamReady, "hasPlayed:", hasPlayedIntroRef.current);
@@ -578,148 +1077,78 @@ export const LiveAvatarContextProvider = ({
     // Mark as played immediately to prevent double-play
     hasPlayedIntroRef.current = true;
 
-    const playIntro = async () => {
+    const playIntro = () => {
       const introPhrase = getRandomIntroPhrase(isDemoMode);
 
-      addMessage({
-        sender: MessageSender.AVATAR,
-        message: introPhrase,
-        timestamp: Date.now(),
-      });
+      addMessage(
+        createMessage({
+          sender: MessageSender.AVATAR,
+          message: introPhrase,
+          source: "system",
+        })
+      );
 
-      try {
-        console.log("[Intro] Playing intro:", introPhrase);
-        await session.repeat(introPhrase);
-        console.log("[Intro] Intro played successfully");
-      } catch (err) {
-        console.error("[Intro] Failed to play intro:", err);
-      }
+      console.log("[Intro] Playing intro:", introPhrase);
+      speechQueueRef.current?.enqueue(introPhrase);
     };
 
     // Small delay to ensure avatar is fully ready to speak
     setTimeout(playIntro, 1000);
   }, [isStreamReady, isDemoMode, addMessage, sessionRef]);
 
-  // Add a typed message (from text input) - adds to messages and gets response
-  const addTypedMessage = useCallback(
-    async (text: string) => {
-      // Track this message so we can skip it if it appears in transcription
-      recentTypedMessagesRef.current.add(text);
-      // Clear from tracking after a short delay
-      setTimeout(() => {
-        recentTypedMessagesRef.current.delete(text);
-      }, 2000);
-
-      // Add to messages
-      addMessage({
-        sender: MessageSender.USER,
-        message: text,
-        timestamp: Date.now(),
-      });
-
-      try {
-        setIsProcessingTypedMessage(true);
-
-        let responseText: string;
-        let placeholderSpoken = false;
-        const session = sessionRef.current;
+  const interruptTurn = useCallback(() => {
+    orchestratorRef.current?.interrupt();
+  }, []);
 
-        if (isDemoMode) {
-          // Demo mode: use comprehensive FAQ responses
-          console.log("[Demo] Processing typed message locally:", text);
-          responseText = getDemoResponse(text);
-        } else {
-          // Production mode: send to OpenClaw Gateway
-          const gateway = gatewayClientRef.current;
-          if (!gateway || gateway.state !== "connected") {
-            console.warn("[OpenClaw] Gateway not connected, cannot send typed message");
-            responseText = "I'm not connected to the OpenClaw agent yet. Please make sure the Gateway is running.";
-          } else {
-            console.log("[OpenClaw] Sending typed message to agent:", text);
-
-            // Set up placeholder timeout - speak a filler if response takes > 2s
-            let placeholderTimeout: NodeJS.Timeout | null = null;
-            if (session && session.state === SessionState.CONNECTED) {
-              placeholderTimeout = setTimeout(async () => {
-                const placeholder = getRandomProcessingPhrase();
-                console.log("[Avatar] Speaking placeholder (slow response):", placeholder);
-                placeholderSpoken = true;
-                try {
-                  await session.repeat(placeholder);
-                } catch (err) {
-                  console.error("[Avatar] Failed to speak placeholder:", err);
-                }
-              }, 2000);
-            }
-
-            const response = await gateway.sendToAgent(text);
-
-            // Clear placeholder timeout if response came back in time
-            if (placeholderTimeout) {
-              clearTimeout(placeholderTimeout);
-            }
-
-            console.log("[OpenClaw] Agent response:", response);
-
-            if (response.status === "completed" && response.text) {
-              responseText = response.text;
-            } else {
-              responseText = "Sorry, I didn't get a response from the agent.";
-            }
-          }
-        }
+  const addTypedMessage = useCallback((text: string) => {
+    // Track this message so we can skip it if it appears in transcription
+    recentTypedMessagesRef.current.add(text);
+    // Clear from tracking after a short delay
+    setTimeout(() => {
+      recentTypedMessagesRef.current.delete(text);
+    }, 2000);
 
-        // Parse response to extract TTS summary and full message
-        const gateway = gatewayClientRef.current;
-        let ttsText = responseText;
-        let displayText = responseText;
+    orchestratorRef.current?.submit({ text, source: "typed" });
+  }, []);
 
-        if (!isDemoMode && gateway) {
-          const parsed = gateway.parseResponse(responseText);
-          ttsText = parsed.tts;
-          displayText = parsed.full;
-        } else {
-          // Demo mode: just truncate for TTS
-          ttsText = truncateForTTS(responseText);
-        }
+  // Flush queued turns in order once the gateway is back
+  const isFlushingOutboxRef = useRef(false);
+  useEffect(() => {
+    if (gatewayState !== "connected" || isDemoMode) return;
+    if (isFlushingOutboxRef.current) return;
 
-        // Add full response to chat (without the TTS block)
-        addMessage({
-          sender: MessageSender.AVATAR,
-          message: displayText,
-          timestamp: Date.now(),
-        });
-
-        // Make avatar speak - only the TTS summary
-        // If placeholder was spoken, wait a moment before speaking the actual response
-        if (session && session.state === SessionState.CONNECTED) {
-          try {
-            if (placeholderSpoken) {
-              // Small delay to let placeholder finish
-              await new Promise(resolve => setTimeout(resolve, 500));
-            }
-            console.log("[Avatar] Speaking TTS summary:", ttsText);
-            await session.repeat(ttsText);
-          } catch (speakErr) {
-            console.error("[Avatar] Failed to make avatar speak:", speakErr);
+    const flush = async () => {
+      isFlushingOutboxRef.current = true;
+      try {
+        const outbox = getOutbox();
+        let entry = outbox.peek();
+        while (entry && getGatewayClient().state === "connected") {
+          // Typed for another agent or session (picked since, or on another
+          // page load) - sending it now would answer it in the wrong conversation
+          if (entry.sessionKey !== getGatewayClient().session.sessionKey) {
+            console.log("[Outbox] Dropping message queued for another session:", entry.text);
+            outbox.remove(entry.id);
+            setDelivery(entry.id, "failed");
+            entry = outbox.peek();
+            continue;
           }
+          const orchestrator = orchestratorRef.current;
+          if (!orchestrator) break;
+          console.log("[Outbox] Sending queued message:", entry.text);
+          await orchestrator.submit({ text: entry.text, source: "typed", queued: entry });
+          // Don't spin on an entry that is still there (e.g. the gateway dropped again)
+          const next = outbox.peek();
+          if (next && next.id === entry.id) break;
+          entry = next;
         }
-      } catch (err) {
-        console.error("[Chat] Failed to process message:", err);
-        addMessage({
-          sender: MessageSender.AVATAR,
-          message: "Sorry, I couldn't process that. Please try again.",
-          timestamp: Date.now(),
-        });
       } finally {
-        setIsProcessingTypedMessage(false);
+        isFlushingOutboxRef.current = false;
       }
-    },
-    [addMessage, sessionRef, isDemoMode]
-  );
+    };
+    flush();
+  }, [gatewayState, isDemoMode, setDelivery]);
 
-  // Combine processing states from voice and typed messages
-  const isProcessingAgent = isProcessingVoiceAgent || isProcessingTypedMessage;
+  const isProcessingAgent = turnPhase !== "listening";
 
   return (
     <LiveAvatarContext.Provider
@@ -734,10 +1163,48 @@ export const LiveAvatarContextProvider = ({
         isAvatarTalking,
         messages,
         addMessage,
+        updateMessage,
         addTypedMessage,
         gatewayState,
+        reconnectAttempt,
+        retryGateway,
         isProcessingAgent,
         isDemoMode,
+        agentActivity,
+        turnPhase,
+        pendingTurns,
+        interruptTurn,
+        gatewaySession,
+        selectGatewaySession,
+        speechPolicy,
+        setSpeechPolicy,
+        lexicon,
+        updateLexicon,
+        previewPronunciation,
+        conversations,
+        currentConversationId: transcript?.id ?? null,
+        openConversation,
+        startNewConversation,
+        deleteConversation,
+        clearConversations,
+        exportConversation,
+        readAloud,
+        startReadAloud,
+        pauseReadAloud,
+        resumeReadAloud,
+        skipReadAloud,
+        stopReadAloud,
+        latencyStats,
+        mediaStats,
+        qualityLog,
+        degradation,
+        setPresentation,
+        acceptPresentationSuggestion,
+        dismissPresentationSuggestion,
+        idleSettings,
+        updateIdleSettings,
+        idle,
+        confirmPresence,
       }}
     >
       {children}
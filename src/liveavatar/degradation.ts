@@ -0,0 +1,167 @@
+import {
+  ConnectionQuality,
+  LiveAvatarSession,
+  SessionEvent,
+} from "@heygen/liveavatar-web-sdk";
+
+/**
+ * How the avatar is presented:
+ * - video: the full avatar
+ * - audio-only: the (frozen) video is hidden, the avatar is still heard
+ * - text-only: the avatar stays silent, replies are only shown in the chat
+ */
+export type Presentation = "video" | "audio-only" | "text-only";
+
+export interface DegradationConfig {
+  // Switch on its own, or only suggest the switch to the user
+  mode: "auto" | "offer";
+  // Bad quality for this long moves to audio-only...
+  audioOnlyAfterMs: number;
+  // ...and for this long to text-only
+  textOnlyAfterMs: number;
+  // Good quality for this long goes back to video
+  recoverAfterMs: number;
+}
+
+export const DEFAULT_DEGRADATION_CONFIG: DegradationConfig = {
+  mode: "offer",
+  audioOnlyAfterMs: 10000,
+  textOnlyAfterMs: 30000,
+  recoverAfterMs: 15000,
+};
+
+export interface DegradationState {
+  presentation: Presentation;
+  // Set when the policy switched (or the user took its suggestion), so it
+  // knows it may switch back once the connection recovers
+  degraded: boolean;
+  // Offered switch waiting for the user ("offer" mode)
+  suggestion: Presentation | null;
+}
+
+const SEVERITY: Record<Presentation, number> = {
+  video: 0,
+  "audio-only": 1,
+  "text-only": 2,
+};
+
+/**
+ * Watches connection quality and steps the presentation down to audio-only
+ * and then text-only while it stays bad, and back up to video once it has
+ * been good for a while. A presentation the user picked themselves is left
+ * alone.
+ */
+export class DegradationPolicy {
+  private session: LiveAvatarSession;
+  private onChange: (state: DegradationState) => void;
+  private config: DegradationConfig;
+  private _state: DegradationState = {
+    presentation: "video",
+    degraded: false,
+    suggestion: null,
+  };
+  private timers: ReturnType<typeof setTimeout>[] = [];
+
+  constructor(
+    session: LiveAvatarSession,
+    onChange: (state: DegradationState) => void,
+    config: DegradationConfig
+  ) {
+    this.session = session;
+    this.onChange = onChange;
+    this.config = config;
+    session.on(SessionEvent.SESSION_CONNECTION_QUALITY_CHANGED, this.handleQualityChanged);
+  }
+
+  get state(): DegradationState {
+    return this._state;
+  }
+
+  /**
+   * The user picked a presentation - it stays until they change it again
+   */
+  setPresentation(presentation: Presentation) {
+    this.clearTimers();
+    this.setState({ presentation, degraded: false, suggestion: null });
+  }
+
+  acceptSuggestion() {
+    const { suggestion } = this._state;
+    if (!suggestion) return;
+    this.setState({
+      presentation: suggestion,
+      degraded: suggestion !== "video",
+      suggestion: null,
+    });
+  }
+
+  dismissSuggestion() {
+    if (!this._state.suggestion) return;
+    this.setState({ ...this._state, suggestion: null });
+  }
+
+  dispose() {
+    this.clearTimers();
+    this.session.off(SessionEvent.SESSION_CONNECTION_QUALITY_CHANGED, this.handleQualityChanged);
+  }
+
+  private handleQualityChanged = (quality: ConnectionQuality) => {
+    this.clearTimers();
+    const { audioOnlyAfterMs, textOnlyAfterMs, recoverAfterMs } = this.config;
+
+    if (quality === ConnectionQuality.BAD) {
+      // An offer to go back to video is moot now
+      if (this._state.suggestion === "video") {
+        this.setState({ ...this._state, suggestion: null });
+      }
+      // Picked by the user - leave it be
+      if (this._state.presentation !== "video" && !this._state.degraded) return;
+      this.schedule(audioOnlyAfterMs, () => this.stepTo("audio-only"));
+      this.schedule(textOnlyAfterMs, () => this.stepTo("text-only"));
+      return;
+    }
+
+    if (quality === ConnectionQuality.GOOD) {
+      // A suggestion to step down is moot now
+      if (this._state.suggestion && this._state.suggestion !== "video") {
+        this.setState({ ...this._state, suggestion: null });
+      }
+      if (this._state.degraded) {
+        this.schedule(recoverAfterMs, () => this.stepTo("video"));
+      }
+    }
+  };
+
+  private stepTo(presentation: Presentation) {
+    const current = this._state.presentation;
+    const recovering = presentation === "video";
+    // Only ever step further down, or all the way back up
+    if (!recovering && SEVERITY[presentation] <= SEVERITY[current]) return;
+    if (recovering && current === "video") return;
+
+    console.log(
+      `[Degradation] Connection ${recovering ? "recovered" : "poor"}, ${
+        this.config.mode === "auto" ? "switching" : "offering to switch"
+      } to ${presentation}`
+    );
+    if (this.config.mode === "auto") {
+      this.setState({ presentation, degraded: !recovering, suggestion: null });
+    } else {
+      this.setState({ ...this._state, suggestion: presentation });
+    }
+  }
+
+  private schedule(delayMs: number, run: () => void) {
+    this.timers.push(setTimeout(run, delayMs));
+  }
+
+  private clearTimers() {
+    this.timers.forEach(clearTimeout);
+    this.timers = [];
+  }
+
+  private setState(state: DegradationState) {
+    this._state = state;
+    this.onChange(state);
+  }
+}
@@ -0,0 +1,115 @@
+// Demo mode - canned answers used when no OpenClaw Gateway is reachable
+
+import { normalizeForSpeech, splitSentences } from "../gateway/speechText";
+
+/**
+ * Truncate text for TTS to avoid overwhelming the avatar with long responses.
+ * Keeps approximately 2-3 sentences (around 200 characters max).
+ */
+export const truncateForTTS = (text: string, maxLength: number = 200): string => {
+  const spoken = normalizeForSpeech(text);
+  if (spoken.length <= maxLength) {
+    return spoken;
+  }
+
+  // Keep whole sentences if they fill at least half the budget
+  let kept = "";
+  for (const sentence of splitSentences(spoken)) {
+    const next = kept ? `${kept} ${sentence}` : sentence;
+    if (next.length > maxLength) break;
+    kept = next;
+  }
+  if (kept.length > maxLength * 0.5) {
+    return kept;
+  }
+
+  const truncated = spoken.substring(0, maxLength);
+
+  // Otherwise cut at last space and add ellipsis
+  const lastSpace = truncated.lastIndexOf(" ");
+  if (lastSpace > maxLength * 0.7) {
+    return truncated.substring(0, lastSpace).trim() + "...";
+  }
+
+  return truncated.trim() + "...";
+};
+
+/**
+ * Demo mode FAQ responses - comprehensive guide to the OpenClaw LiveAvatar integration
+ */
+export const getDemoResponse = (text: string): string => {
+  const lowerText = text.toLowerCase().trim();
+
+  // Greetings
+  if (lowerText.match(/^(hi|hello|hey|greetings|good morning|good afternoon|good evening)\.?$/)) {
+    return "Hello! Welcome to the OpenClaw LiveAvatar integration demo. I'm here to show you how this works. Try asking me 'what is this?' or 'how does it work?' to learn more!";
+  }
+
+  // What is this / Introduction
+  if (lowerText.includes("what is this") || lowerText.includes("what are you") || lowerText.includes("who are you")) {
+    return "I'm a LiveAvatar - a real-time AI video avatar that serves as your voice and video interface to OpenClaw agents. Think of me as a friendly face for your AI assistant. When connected to OpenClaw, I'll speak your agent's responses and listen to your voice commands!";
+  }
+
+  // How does it work
+  if (lowerText.includes("how does it work") || lowerText.includes("how do you work") || lowerText.includes("explain")) {
+    return "Here's how it works: You speak to me or type a message. Your input goes to your OpenClaw agent, which processes it and generates a response. Then I speak that response back to you with natural lip-sync and expressions. It's like having a video call with your AI agent!";
+  }
+
+  // What is OpenClaw
+  if (lowerText.includes("openclaw") && (lowerText.includes("what") || lowerText.includes("tell me about"))) {
+    return "OpenClaw is an AI agent platform that lets you build and deploy intelligent assistants. These agents can handle tasks, answer questions, and integrate with your tools. This LiveAvatar integration adds a human-like video interface to make interactions more engaging and natural.";
+  }
+
+  // What is LiveAvatar
+  if (lowerText.includes("liveavatar") && (lowerText.includes("what") || lowerText.includes("tell me about"))) {
+    return "LiveAvatar is powered by HeyGen's streaming avatar technology. It creates real-time, photorealistic AI avatars that can speak any text with natural expressions and lip-sync. Combined with OpenClaw, it transforms text-based AI interactions into face-to-face conversations.";
+  }
+
+  // Help / Commands
+  if (lowerText === "help" || lowerText.includes("what can i ask") || lowerText.includes("what can you do") || lowerText.includes("commands")) {
+    return "In demo mode, you can ask me about: 'What is this?', 'How does it work?', 'What is OpenClaw?', 'What is LiveAvatar?', 'How do I connect?', 'Features', 'Requirements', 'Pricing', or 'Get started'. Once connected to OpenClaw, I'll respond with your actual agent's intelligence!";
+  }
+
+  // How to connect / Setup
+  if (lowerText.includes("connect") || lowerText.includes("setup") || lowerText.includes("get started") || lowerText.includes("install")) {
+    return "To connect to your OpenClaw agent: First, make sure OpenClaw is running on your computer with the Gateway enabled on port 18789. Then refresh this page - I'll automatically detect the connection and switch from demo mode to live mode. You'll see the status change from 'Demo Mode' to 'OpenClaw Connected'.";
+  }
+
+  // Features
+  if (lowerText.includes("feature")) {
+    return "Key features include: Voice-to-voice conversations with your AI agent, real-time video avatar with natural expressions, text chat as an alternative to voice, multiple avatar options to choose from, and seamless integration with your OpenClaw workflows. It's like giving your AI a face!";
+  }
+
+  // Requirements
+  if (lowerText.includes("requirement") || lowerText.includes("need") || lowerText.includes("prerequisite")) {
+    return "To use this integration you'll need: An OpenClaw account with an active agent, the OpenClaw Gateway running locally, a LiveAvatar API key from HeyGen, a modern browser with microphone access, and a stable internet connection for the video stream.";
+  }
+
+  // Pricing / Cost
+  if (lowerText.includes("price") || lowerText.includes("cost") || lowerText.includes("free") || lowerText.includes("pricing")) {
+    return "LiveAvatar sessions consume HeyGen credits based on session duration. OpenClaw has its own pricing for agent usage. Check openclaw.ai and heygen.com for current pricing. This demo mode is free to try and shows you exactly how the integration works!";
+  }
+
+  // Demo mode explanation
+  if (lowerText.includes("demo mode") || lowerText.includes("demo")) {
+    return "You're currently in demo mode because no OpenClaw Gateway connection was detected. In this mode, I respond with pre-set information about the integration. Once you connect to OpenClaw, I'll relay your messages to your actual AI agent and speak its responses!";
+  }
+
+  // Voice / Microphone
+  if (lowerText.includes("voice") || lowerText.includes("microphone") || lowerText.includes("speak") || lowerText.includes("talk")) {
+    return "You can talk to me using your microphone! Click the green microphone button to unmute, then just speak naturally. I'll transcribe what you say, process it, and respond verbally. You can also type in the chat box if you prefer text input.";
+  }
+
+  // Avatar / Change avatar
+  if (lowerText.includes("avatar") || lowerText.includes("change") || lowerText.includes("appearance")) {
+    return "You can change my appearance by clicking the person icon in the bottom right of the video. This opens the avatar selector where you can choose from different available avatars. Each avatar has its own look and voice!";
+  }
+
+  // Goodbye
+  if (lowerText.includes("bye") || lowerText.includes("goodbye") || lowerText.includes("see you") || lowerText.includes("thanks")) {
+    return "Thank you for trying the OpenClaw LiveAvatar demo! When you're ready to use it with your actual OpenClaw agent, just start the Gateway and refresh this page. Have a great day!";
+  }
+
+  // Default response for unrecognized input
+  return `I heard: "${text}". I'm currently in demo mode, showing you how this integration works. Try asking me about 'what is this?', 'how does it work?', or type 'help' for more options. Once connected to OpenClaw, your agent will provide intelligent responses to any question!`;
+};
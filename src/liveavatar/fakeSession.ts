@@ -0,0 +1,246 @@
+// In-memory stand-in for LiveAvatarSession
+// Lets the context and hooks run without HeyGen - nothing is streamed, events
+// are emitted on demand and everything the avatar was asked to do is recorded
+
+import { EventEmitter } from "events";
+import {
+  AgentEventsEnum,
+  ConnectionQuality,
+  LiveAvatarSession,
+  SessionConfig,
+  SessionDisconnectReason,
+  SessionEvent,
+  SessionState,
+  VoiceChatEvent,
+  VoiceChatState,
+} from "@heygen/liveavatar-web-sdk";
+import { LiveAvatarSessionFactory } from "./types";
+
+export interface FakeSessionOptions {
+  // Emit AVATAR_SPEAK_STARTED/ENDED around each repeat, like the real avatar
+  autoSpeak?: boolean;
+  // How long a repeat "takes" to speak, per character
+  speakMsPerChar?: number;
+  // Delay between start() and the session reaching CONNECTED
+  connectDelayMs?: number;
+}
+
+let fakeEventId = 0;
+const nextEventId = () => `fake-event-${++fakeEventId}`;
+
+export class FakeVoiceChat extends EventEmitter {
+  private _state = VoiceChatState.INACTIVE;
+  private _isMuted = true;
+
+  get state(): VoiceChatState {
+    return this._state;
+  }
+
+  get isMuted(): boolean {
+    return this._isMuted;
+  }
+
+  async start(config?: { defaultMuted?: boolean }) {
+    this.setState(VoiceChatState.STARTING);
+    this.setState(VoiceChatState.ACTIVE);
+    if (config?.defaultMuted) {
+      await this.mute();
+    } else {
+      await this.unmute();
+    }
+  }
+
+  stop() {
+    this.setState(VoiceChatState.INACTIVE);
+  }
+
+  async mute() {
+    this._isMuted = true;
+    this.emit(VoiceChatEvent.MUTED);
+  }
+
+  async unmute() {
+    this._isMuted = false;
+    this.emit(VoiceChatEvent.UNMUTED);
+  }
+
+  async setDevice(): Promise<boolean> {
+    return true;
+  }
+
+  private setState(state: VoiceChatState) {
+    this._state = state;
+    this.emit(VoiceChatEvent.STATE_CHANGED, state);
+  }
+}
+
+export class FakeLiveAvatarSession extends EventEmitter {
+  readonly voiceChat = new FakeVoiceChat();
+  readonly maxSessionDuration: number | null = null;
+
+  // What the app asked the avatar to do, oldest first
+  readonly spoken: string[] = [];
+  readonly messages: string[] = [];
+  interruptCount = 0;
+  keepAliveCount = 0;
+
+  private _state = SessionState.INACTIVE;
+  private _connectionQuality = ConnectionQuality.UNKNOWN;
+  private options: Required<FakeSessionOptions>;
+  private config: SessionConfig;
+  private speakTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: SessionConfig = {}, options: FakeSessionOptions = {}) {
+    super();
+    this.config = config;
+    this.options = {
+      autoSpeak: options.autoSpeak ?? true,
+      speakMsPerChar: options.speakMsPerChar ?? 50,
+      connectDelayMs: options.connectDelayMs ?? 0,
+    };
+  }
+
+  get state(): SessionState {
+    return this._state;
+  }
+
+  get connectionQuality(): ConnectionQuality {
+    return this._connectionQuality;
+  }
+
+  get isSpeaking(): boolean {
+    return this.speakTimer !== null;
+  }
+
+  async start() {
+    this.setState(SessionState.CONNECTING);
+    if (this.options.connectDelayMs > 0) {
+      await new Promise((resolve) => setTimeout(resolve, this.options.connectDelayMs));
+    }
+    this.setState(SessionState.CONNECTED);
+    this.emit(SessionEvent.SESSION_STREAM_READY);
+    this.setConnectionQuality(ConnectionQuality.GOOD);
+
+    if (this.config.voiceChat) {
+      await this.voiceChat.start(
+        typeof this.config.voiceChat === "object" ? this.config.voiceChat : {}
+      );
+    }
+  }
+
+  async stop() {
+    this.finishSpeaking();
+    this.setState(SessionState.DISCONNECTING);
+    this.voiceChat.stop();
+    this.setState(SessionState.DISCONNECTED);
+    this.emit(
+      SessionEvent.SESSION_DISCONNECTED,
+      SessionDisconnectReason.CLIENT_INITIATED
+    );
+  }
+
+  async keepAlive() {
+    this.keepAliveCount++;
+  }
+
+  attach() {
+    // Nothing to stream
+  }
+
+  message(message: string) {
+    this.messages.push(message);
+  }
+
+  repeat(message: string) {
+    this.spoken.push(message);
+    if (!this.options.autoSpeak) return;
+
+    // A new repeat cuts off whatever was being said
+    this.finishSpeaking();
+    this.emitAgentEvent(AgentEventsEnum.AVATAR_SPEAK_STARTED);
+    this.speakTimer = setTimeout(
+      () => this.finishSpeaking(),
+      message.length * this.options.speakMsPerChar
+    );
+  }
+
+  repeatAudio() {
+    // Audio isn't recorded
+  }
+
+  startListening() {}
+
+  stopListening() {}
+
+  interrupt() {
+    this.interruptCount++;
+    this.finishSpeaking();
+  }
+
+  // Driving the session from a test or dev harness
+
+  /**
+   * Simulate the user saying something: speak started, transcription, speak ended
+   */
+  simulateUserSpeech(text: string) {
+    this.emitAgentEvent(AgentEventsEnum.USER_SPEAK_STARTED);
+    this.emit(AgentEventsEnum.USER_TRANSCRIPTION, {
+      event_id: nextEventId(),
+      event_type: AgentEventsEnum.USER_TRANSCRIPTION,
+      text,
+    });
+    this.emitAgentEvent(AgentEventsEnum.USER_SPEAK_ENDED);
+  }
+
+  /**
+   * End the current repeat now instead of waiting for its simulated duration
+   */
+  finishSpeaking() {
+    if (!this.speakTimer) return;
+    clearTimeout(this.speakTimer);
+    this.speakTimer = null;
+    this.emitAgentEvent(AgentEventsEnum.AVATAR_SPEAK_ENDED);
+  }
+
+  setConnectionQuality(quality: ConnectionQuality) {
+    this._connectionQuality = quality;
+    this.emit(SessionEvent.SESSION_CONNECTION_QUALITY_CHANGED, quality);
+  }
+
+  /**
+   * Drop the session as if the connection was lost
+   */
+  simulateDisconnect() {
+    this.finishSpeaking();
+    this.setState(SessionState.DISCONNECTED);
+    this.emit(
+      SessionEvent.SESSION_DISCONNECTED,
+      SessionDisconnectReason.UNKNOWN_REASON
+    );
+  }
+
+  private emitAgentEvent(
+    type:
+      | AgentEventsEnum.USER_SPEAK_STARTED
+      | AgentEventsEnum.USER_SPEAK_ENDED
+      | AgentEventsEnum.AVATAR_SPEAK_STARTED
+      | AgentEventsEnum.AVATAR_SPEAK_ENDED
+  ) {
+    this.emit(type, { event_id: nextEventId(), event_type: type });
+  }
+
+  private setState(state: SessionState) {
+    this._state = state;
+    this.emit(SessionEvent.SESSION_STATE_CHANGED, state);
+  }
+}
+
+/**
+ * Session factory for LiveAvatarContextProvider's createSession prop
+ */
+export const createFakeSession = (
+  options: FakeSessionOptions = {}
+): LiveAvatarSessionFactory => {
+  return (_sessionAccessToken, config) =>
+    new FakeLiveAvatarSession(config, options) as unknown as LiveAvatarSession;
+};
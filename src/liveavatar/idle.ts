@@ -0,0 +1,210 @@
+// Idle policy - keeps the avatar session alive while the user is around and
+// ends it when they have gone, so a forgotten tab doesn't keep a billed
+// session open
+// Settings are stored in the app config file via /api/idle
+
+import {
+  AgentEventsEnum,
+  LiveAvatarSession,
+  SessionEvent,
+  SessionState,
+} from "@heygen/liveavatar-web-sdk";
+
+export interface IdleSettings {
+  enabled: boolean;
+  // How often the session is kept alive while the user is active
+  keepAliveIntervalMs: number;
+  // No activity for this long shows (and says) "are you still there?"...
+  warnAfterMs: number;
+  // ...and the session ends this long after the warning
+  endAfterWarningMs: number;
+}
+
+export const DEFAULT_IDLE_SETTINGS: IdleSettings = {
+  enabled: true,
+  keepAliveIntervalMs: 60 * 1000,
+  warnAfterMs: 5 * 60 * 1000,
+  endAfterWarningMs: 60 * 1000,
+};
+
+export interface IdleState {
+  // When the session will end, while the warning is up
+  endsAt: number | null;
+}
+
+export interface IdleCallbacks {
+  onChange: (state: IdleState) => void;
+  // The warning went up - say something
+  onWarn: () => void;
+  // Nobody answered the warning - end the session
+  onTimeout: () => void;
+}
+
+const IDLE_URL = "/api/idle";
+
+// Mouse moves come in bursts - don't restart the timers for every one
+const ACTIVITY_THROTTLE_MS = 1000;
+
+export async function loadIdleSettings(): Promise<IdleSettings> {
+  const res = await fetch(IDLE_URL);
+  if (!res.ok) {
+    throw new Error(`Failed to load idle settings (${res.status})`);
+  }
+  const data = await res.json();
+  return { ...DEFAULT_IDLE_SETTINGS, ...data.settings };
+}
+
+export async function saveIdleSettings(settings: IdleSettings): Promise<void> {
+  const res = await fetch(IDLE_URL, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ settings }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to save idle settings (${res.status})`);
+  }
+}
+
+/**
+ * Tracks user activity (talking to the avatar, plus whatever the page reports
+ * through activity()) and:
+ * - calls keepAlive on the session while there has been activity
+ * - warns after a quiet period, cleared by any user activity
+ * - asks for the session to end if the warning goes unanswered
+ * The avatar speaking holds off the warning but doesn't count as the user
+ * being there, so it doesn't clear one either.
+ */
+export class IdlePolicy {
+  private session: LiveAvatarSession;
+  private callbacks: IdleCallbacks;
+  private settings: IdleSettings;
+  private lastActivity = Date.now();
+  private lastKeepAlive = Date.now();
+  private scheduledAt = 0;
+  private endsAt: number | null = null;
+  private keepAliveTimer: ReturnType<typeof setInterval> | null = null;
+  private idleTimer: ReturnType<typeof setTimeout> | null = null;
+  private running = false;
+
+  constructor(session: LiveAvatarSession, callbacks: IdleCallbacks, settings: IdleSettings) {
+    this.session = session;
+    this.callbacks = callbacks;
+    this.settings = settings;
+    session.on(SessionEvent.SESSION_STREAM_READY, this.start);
+    session.on(SessionEvent.SESSION_DISCONNECTED, this.stop);
+    session.on(AgentEventsEnum.USER_SPEAK_STARTED, this.handleUserActivity);
+    session.on(AgentEventsEnum.USER_TRANSCRIPTION, this.handleUserActivity);
+    session.on(AgentEventsEnum.AVATAR_SPEAK_STARTED, this.handleAvatarSpeech);
+    session.on(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleAvatarSpeech);
+    if (session.state === SessionState.CONNECTED) this.start();
+  }
+
+  get state(): IdleState {
+    return { endsAt: this.endsAt };
+  }
+
+  /**
+   * The user did something - typed, clicked, moved the mouse
+   */
+  activity() {
+    const now = Date.now();
+    this.lastActivity = now;
+    if (this.endsAt !== null) {
+      console.log("[Idle] User is back");
+      this.setEndsAt(null);
+    } else if (now - this.scheduledAt < ACTIVITY_THROTTLE_MS) {
+      return;
+    }
+    this.scheduleWarning();
+  }
+
+  updateSettings(settings: IdleSettings) {
+    this.settings = settings;
+    this.stop();
+    if (this.session.state === SessionState.CONNECTED) this.start();
+  }
+
+  dispose() {
+    this.stop();
+    this.session.off(SessionEvent.SESSION_STREAM_READY, this.start);
+    this.session.off(SessionEvent.SESSION_DISCONNECTED, this.stop);
+    this.session.off(AgentEventsEnum.USER_SPEAK_STARTED, this.handleUserActivity);
+    this.session.off(AgentEventsEnum.USER_TRANSCRIPTION, this.handleUserActivity);
+    this.session.off(AgentEventsEnum.AVATAR_SPEAK_STARTED, this.handleAvatarSpeech);
+    this.session.off(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleAvatarSpeech);
+  }
+
+  private start = () => {
+    if (this.running || !this.settings.enabled) return;
+    this.running = true;
+    this.lastActivity = Date.now();
+    this.lastKeepAlive = Date.now();
+    this.keepAliveTimer = setInterval(this.keepAlive, this.settings.keepAliveIntervalMs);
+    this.scheduleWarning();
+  };
+
+  private stop = () => {
+    this.running = false;
+    if (this.keepAliveTimer) {
+      clearInterval(this.keepAliveTimer);
+      this.keepAliveTimer = null;
+    }
+    this.clearIdleTimer();
+    if (this.endsAt !== null) this.setEndsAt(null);
+  };
+
+  private handleUserActivity = () => {
+    this.activity();
+  };
+
+  // A long answer isn't the user going quiet - start counting once it's over
+  private handleAvatarSpeech = () => {
+    if (this.endsAt !== null) return;
+    this.scheduleWarning();
+  };
+
+  // Only while the user has been around since the last ping - otherwise the
+  // session is left to run out
+  private keepAlive = () => {
+    if (this.lastActivity <= this.lastKeepAlive) return;
+    if (this.session.state !== SessionState.CONNECTED) return;
+    this.lastKeepAlive = Date.now();
+    this.session.keepAlive().catch((err) => {
+      console.error("[Idle] Keep-alive failed:", err);
+    });
+  };
+
+  private scheduleWarning() {
+    if (!this.running) return;
+    this.clearIdleTimer();
+    this.scheduledAt = Date.now();
+    this.idleTimer = setTimeout(this.warn, this.settings.warnAfterMs);
+  }
+
+  private warn = () => {
+    const { endAfterWarningMs } = this.settings;
+    console.log(`[Idle] No activity, ending the session in ${Math.round(endAfterWarningMs / 1000)}s`);
+    this.setEndsAt(Date.now() + endAfterWarningMs);
+    this.callbacks.onWarn();
+    this.idleTimer = setTimeout(this.timeout, endAfterWarningMs);
+  };
+
+  private timeout = () => {
+    console.log("[Idle] Nobody there, ending the session");
+    this.stop();
+    this.callbacks.onTimeout();
+  };
+
+  private clearIdleTimer() {
+    if (this.idleTimer) {
+      clearTimeout(this.idleTimer);
+      this.idleTimer = null;
+    }
+  }
+
+  private setEndsAt(endsAt: number | null) {
+    this.endsAt = endsAt;
+    this.callbacks.onChange(this.state);
+  }
+}
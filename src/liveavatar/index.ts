@@ -1,6 +1,6 @@
 export { LiveAvatarContextProvider, useLiveAvatarContext } from "./context";
 export * from "./types";
-export { useChatHistory } from "./useChatHistory";
+export { useChatHistory, useChatMessages } from "./useChatHistory";
 export { useSession } from "./useSession";
 export { useVoiceChat } from "./useVoiceChat";
 export { useTextChat } from "./useTextChat";
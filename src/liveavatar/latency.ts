@@ -0,0 +1,184 @@
+import { AgentEventsEnum, LiveAvatarSession } from "@heygen/liveavatar-web-sdk";
+
+/**
+ * Points in a turn's life, in the order they normally happen:
+ * - userSpeechEnded: the user stopped talking (voice turns only)
+ * - received: the transcription (or typed message) came in
+ * - sent: the turn left the queue and went to the agent
+ * - accepted: the gateway accepted the agent request
+ * - firstDelta: first piece of reply text from the agent
+ * - runEnded: the agent run finished
+ * - speechQueued: first line of the reply handed to the avatar (not fillers)
+ * - speakStarted / speakEnded: the avatar started and finished talking
+ */
+export type TurnMark =
+  | "userSpeechEnded"
+  | "received"
+  | "sent"
+  | "accepted"
+  | "firstDelta"
+  | "runEnded"
+  | "speechQueued"
+  | "speakStarted"
+  | "speakEnded";
+
+export interface TurnTiming {
+  source: "voice" | "typed";
+  marks: Partial<Record<TurnMark, number>>;
+}
+
+export interface LatencyStage {
+  id: string;
+  label: string;
+  from: TurnMark;
+  to: TurnMark;
+}
+
+// What the overlay shows - each stage is the time between two marks
+export const LATENCY_STAGES: LatencyStage[] = [
+  { id: "transcription", label: "Transcription", from: "userSpeechEnded", to: "received" },
+  { id: "queue", label: "Queued", from: "received", to: "sent" },
+  { id: "gateway", label: "Gateway accept", from: "sent", to: "accepted" },
+  { id: "firstDelta", label: "First token", from: "accepted", to: "firstDelta" },
+  { id: "agent", label: "Agent run", from: "accepted", to: "runEnded" },
+  { id: "lipSync", label: "Avatar start", from: "speechQueued", to: "speakStarted" },
+  { id: "speaking", label: "Speaking", from: "speakStarted", to: "speakEnded" },
+  { id: "total", label: "Time to speech", from: "received", to: "speakStarted" },
+];
+
+export interface StageStats {
+  count: number;
+  // The most recent turn, if it got this far
+  last: number | null;
+  p50: number;
+  p90: number;
+  p95: number;
+}
+
+export type LatencyStats = Record<string, StageStats>;
+
+// A transcription arriving later than this isn't for the speech that ended
+const MAX_TRANSCRIPTION_MS = 30000;
+
+/**
+ * Nearest-rank percentile of values sorted ascending
+ */
+const percentile = (sorted: number[], p: number): number =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1))];
+
+/**
+ * Times each turn from the user finishing speaking to the avatar finishing
+ * its answer, and keeps rolling percentiles per stage over the last turns.
+ * The turn orchestrator marks the agent side; avatar and user speech are
+ * picked up from the session events.
+ */
+export class LatencyTracker {
+  private session: LiveAvatarSession;
+  private onChange: (stats: LatencyStats) => void;
+  private windowSize: number;
+  private history: TurnTiming[] = [];
+  private lastUserSpeechEnd: number | null = null;
+  // Turn the avatar is speaking for, once it has been handed a line
+  private speaking: TurnTiming | null = null;
+
+  constructor(
+    session: LiveAvatarSession,
+    onChange: (stats: LatencyStats) => void,
+    windowSize: number = 50
+  ) {
+    this.session = session;
+    this.onChange = onChange;
+    this.windowSize = windowSize;
+    session.on(AgentEventsEnum.USER_SPEAK_ENDED, this.handleUserSpeakEnded);
+    session.on(AgentEventsEnum.AVATAR_SPEAK_STARTED, this.handleAvatarSpeakStarted);
+    session.on(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleAvatarSpeakEnded);
+  }
+
+  /**
+   * Start timing a turn as it comes in, or as it came in if it was held back
+   */
+  begin(source: TurnTiming["source"], receivedAt: number = Date.now()): TurnTiming {
+    const now = Date.now();
+    const timing: TurnTiming = { source, marks: { received: receivedAt } };
+    if (
+      source === "voice" &&
+      this.lastUserSpeechEnd !== null &&
+      now - this.lastUserSpeechEnd < MAX_TRANSCRIPTION_MS
+    ) {
+      timing.marks.userSpeechEnded = this.lastUserSpeechEnd;
+      this.lastUserSpeechEnd = null;
+    }
+    return timing;
+  }
+
+  /**
+   * Record a point in the turn - only the first time it happens counts
+   */
+  mark(timing: TurnTiming, mark: TurnMark) {
+    if (timing.marks[mark] !== undefined) return;
+    timing.marks[mark] = Date.now();
+    if (mark === "speechQueued") this.speaking = timing;
+  }
+
+  /**
+   * The turn is over (the avatar is done with it) - add it to the stats
+   */
+  finish(timing: TurnTiming) {
+    if (this.speaking === timing) this.speaking = null;
+    this.history = [...this.history, timing].slice(-this.windowSize);
+
+    const { marks } = timing;
+    const summary = LATENCY_STAGES.filter(
+      ({ from, to }) => marks[from] !== undefined && marks[to] !== undefined
+    )
+      .map(({ label, from, to }) => `${label} ${marks[to]! - marks[from]!}ms`)
+      .join(", ");
+    console.log("[Latency] Turn timings:", summary);
+
+    this.onChange(this.stats());
+  }
+
+  stats(): LatencyStats {
+    const stats: LatencyStats = {};
+    LATENCY_STAGES.forEach(({ id, from, to }) => {
+      const duration = ({ marks }: TurnTiming) =>
+        marks[from] !== undefined && marks[to] !== undefined && marks[to]! >= marks[from]!
+          ? marks[to]! - marks[from]!
+          : null;
+      const durations = this.history
+        .map(duration)
+        .filter((value): value is number => value !== null);
+      if (durations.length === 0) return;
+
+      const sorted = [...durations].sort((a, b) => a - b);
+      stats[id] = {
+        count: durations.length,
+        last: duration(this.history[this.history.length - 1]),
+        p50: percentile(sorted, 50),
+        p90: percentile(sorted, 90),
+        p95: percentile(sorted, 95),
+      };
+    });
+    return stats;
+  }
+
+  dispose() {
+    this.session.off(AgentEventsEnum.USER_SPEAK_ENDED, this.handleUserSpeakEnded);
+    this.session.off(AgentEventsEnum.AVATAR_SPEAK_STARTED, this.handleAvatarSpeakStarted);
+    this.session.off(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleAvatarSpeakEnded);
+    this.speaking = null;
+  }
+
+  private handleUserSpeakEnded = () => {
+    this.lastUserSpeechEnd = Date.now();
+  };
+
+  private handleAvatarSpeakStarted = () => {
+    if (this.speaking) this.mark(this.speaking, "speakStarted");
+  };
+
+  // A reply is said over several repeats - the last one to end counts
+  private handleAvatarSpeakEnded = () => {
+    if (this.speaking) this.speaking.marks.speakEnded = Date.now();
+  };
+}
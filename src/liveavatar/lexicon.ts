@@ -0,0 +1,102 @@
+// Pronunciation lexicon - rewrites words the avatar gets wrong (product
+// names, CLI commands, acronyms) into how they should be said
+// Stored in the app config file via /api/lexicon
+
+export interface LexiconEntry {
+  id: string;
+  // Word or pattern as it appears in the text
+  match: string;
+  // What the avatar should say instead
+  spoken: string;
+  // Treat match as a regular expression ($1 etc. work in spoken)
+  regex: boolean;
+  caseSensitive: boolean;
+}
+
+const LEXICON_URL = "/api/lexicon";
+
+export const createLexiconEntry = (
+  entry: Partial<LexiconEntry> = {}
+): LexiconEntry => ({
+  id: `lex-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  match: "",
+  spoken: "",
+  regex: false,
+  caseSensitive: false,
+  ...entry,
+});
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+/**
+ * Build the pattern for an entry. Plain words only match whole words, so
+ * "CLI" doesn't rewrite "client". Throws for an invalid regex.
+ */
+export function compileLexiconEntry(entry: LexiconEntry): RegExp {
+  const flags = entry.caseSensitive ? "g" : "gi";
+  if (entry.regex) {
+    return new RegExp(entry.match, flags);
+  }
+  const escaped = escapeRegExp(entry.match.trim());
+  // \b only works next to word characters, e.g. not around "C++"
+  const start = /^\w/.test(entry.match.trim()) ? "\\b" : "";
+  const end = /\w$/.test(entry.match.trim()) ? "\\b" : "";
+  return new RegExp(`${start}${escaped}${end}`, flags);
+}
+
+/**
+ * Rewrite text with the lexicon, entries applied in order. Invalid patterns
+ * are skipped.
+ */
+export function applyLexicon(text: string, entries: LexiconEntry[]): string {
+  return entries.reduce((out, entry) => {
+    if (!entry.match.trim()) return out;
+    try {
+      const pattern = compileLexiconEntry(entry);
+      return entry.regex
+        ? out.replace(pattern, entry.spoken)
+        : out.replace(pattern, () => entry.spoken);
+    } catch (err) {
+      console.warn("[Lexicon] Skipping invalid entry:", entry.match, err);
+      return out;
+    }
+  }, text);
+}
+
+/**
+ * Problem with an entry as typed, or null if it can be used
+ */
+export function validateLexiconEntry(entry: LexiconEntry): string | null {
+  if (!entry.match.trim()) return "Enter the word to replace";
+  if (entry.regex) {
+    try {
+      const pattern = compileLexiconEntry(entry);
+      if (pattern.test("")) return "Pattern matches empty text";
+    } catch (err) {
+      return `Invalid pattern: ${(err as Error).message}`;
+    }
+  }
+  return null;
+}
+
+export async function loadLexicon(): Promise<LexiconEntry[]> {
+  const res = await fetch(LEXICON_URL);
+  if (!res.ok) {
+    throw new Error(`Failed to load lexicon (${res.status})`);
+  }
+  const data = await res.json();
+  return Array.isArray(data.entries) ? data.entries : [];
+}
+
+export async function saveLexicon(entries: LexiconEntry[]): Promise<void> {
+  const res = await fetch(LEXICON_URL, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ entries }),
+  });
+  if (!res.ok) {
+    const data = await res.json().catch(() => ({}));
+    throw new Error(data.error || `Failed to save lexicon (${res.status})`);
+  }
+}
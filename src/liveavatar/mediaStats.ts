@@ -0,0 +1,207 @@
+import {
+  ConnectionQuality,
+  LiveAvatarSession,
+  SessionEvent,
+  SessionState,
+} from "@heygen/liveavatar-web-sdk";
+
+/**
+ * One reading of the avatar's incoming media. Rates are over the time since
+ * the previous reading; values the browser didn't report are null.
+ */
+export interface MediaStatsSample {
+  at: number;
+  videoKbps: number | null;
+  audioKbps: number | null;
+  // Share of packets lost, 0-100, audio and video together
+  packetLoss: number | null;
+  jitterMs: number | null;
+  fps: number | null;
+  width: number | null;
+  height: number | null;
+  rttMs: number | null;
+}
+
+export interface QualityChange {
+  at: number;
+  quality: ConnectionQuality;
+  // Stats at the time, to see what the change was about
+  sample: MediaStatsSample | null;
+}
+
+export interface MediaStatsOptions {
+  intervalMs: number;
+  // How far back samples are kept, for the graphs
+  historyMs: number;
+}
+
+export const DEFAULT_MEDIA_STATS_OPTIONS: MediaStatsOptions = {
+  intervalMs: 2000,
+  historyMs: 5 * 60 * 1000,
+};
+
+// The SDK keeps its LiveKit tracks to itself - they are the only way to the
+// peer connection stats, so reach in for them
+interface StatsSource {
+  getRTCStatsReport(): Promise<RTCStatsReport | undefined>;
+}
+interface SessionTracks {
+  _remoteVideoTrack?: StatsSource | null;
+  _remoteAudioTrack?: StatsSource | null;
+}
+
+// Counters from the previous reading, per inbound stream
+interface Counters {
+  timestamp: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+type RtcStats = Record<string, unknown> & { id: string; type: string; timestamp: number };
+
+const num = (value: unknown): number | null =>
+  typeof value === "number" && Number.isFinite(value) ? value : null;
+
+/**
+ * Samples the avatar session's WebRTC stats on an interval and logs
+ * connection quality changes alongside the stats at the time
+ */
+export class MediaStatsSampler {
+  private session: LiveAvatarSession;
+  private onChange: (samples: MediaStatsSample[], qualityLog: QualityChange[]) => void;
+  private options: MediaStatsOptions;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private counters = new Map<string, Counters>();
+  private _samples: MediaStatsSample[] = [];
+  private _qualityLog: QualityChange[] = [];
+  private sampling = false;
+
+  constructor(
+    session: LiveAvatarSession,
+    onChange: (samples: MediaStatsSample[], qualityLog: QualityChange[]) => void,
+    options: Partial<MediaStatsOptions> = {}
+  ) {
+    this.session = session;
+    this.onChange = onChange;
+    this.options = { ...DEFAULT_MEDIA_STATS_OPTIONS, ...options };
+    session.on(SessionEvent.SESSION_CONNECTION_QUALITY_CHANGED, this.handleQualityChanged);
+    this.timer = setInterval(this.sample, this.options.intervalMs);
+  }
+
+  get samples(): MediaStatsSample[] {
+    return this._samples;
+  }
+
+  get qualityLog(): QualityChange[] {
+    return this._qualityLog;
+  }
+
+  get latest(): MediaStatsSample | null {
+    return this._samples[this._samples.length - 1] ?? null;
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.session.off(SessionEvent.SESSION_CONNECTION_QUALITY_CHANGED, this.handleQualityChanged);
+  }
+
+  private handleQualityChanged = (quality: ConnectionQuality) => {
+    const change: QualityChange = { at: Date.now(), quality, sample: this.latest };
+    console.log("[MediaStats] Connection quality changed:", quality, change.sample);
+    this._qualityLog = [...this._qualityLog, change];
+    this.onChange(this._samples, this._qualityLog);
+  };
+
+  private sample = async () => {
+    if (this.sampling || this.session.state !== SessionState.CONNECTED) return;
+    const { _remoteVideoTrack, _remoteAudioTrack } = this.session as unknown as SessionTracks;
+    if (!_remoteVideoTrack && !_remoteAudioTrack) return;
+
+    this.sampling = true;
+    try {
+      const reports = await Promise.all(
+        [_remoteVideoTrack, _remoteAudioTrack].map((track) =>
+          track ? track.getRTCStatsReport().catch(() => undefined) : undefined
+        )
+      );
+      const stats: RtcStats[] = [];
+      reports.forEach((report) => report?.forEach((entry) => stats.push(entry as RtcStats)));
+      if (stats.length === 0) return;
+
+      const sample = this.toSample(stats);
+      const cutoff = sample.at - this.options.historyMs;
+      this._samples = [...this._samples.filter((s) => s.at >= cutoff), sample];
+      this.onChange(this._samples, this._qualityLog);
+    } finally {
+      this.sampling = false;
+    }
+  };
+
+  private toSample(stats: RtcStats[]): MediaStatsSample {
+    const sample: MediaStatsSample = {
+      at: Date.now(),
+      videoKbps: null,
+      audioKbps: null,
+      packetLoss: null,
+      jitterMs: null,
+      fps: null,
+      width: null,
+      height: null,
+      rttMs: null,
+    };
+    let received = 0;
+    let lost = 0;
+    const jitters: number[] = [];
+
+    stats.forEach((entry) => {
+      if (entry.type === "candidate-pair" && (entry.nominated || entry.selected)) {
+        const rtt = num(entry.currentRoundTripTime);
+        if (rtt !== null) sample.rttMs = Math.round(rtt * 1000);
+        return;
+      }
+      if (entry.type !== "inbound-rtp") return;
+
+      const kind = entry.kind ?? entry.mediaType;
+      const bytesReceived = num(entry.bytesReceived) ?? 0;
+      const packetsReceived = num(entry.packetsReceived) ?? 0;
+      const packetsLost = num(entry.packetsLost) ?? 0;
+      const jitter = num(entry.jitter);
+      if (jitter !== null) jitters.push(jitter * 1000);
+
+      if (kind === "video") {
+        sample.fps = num(entry.framesPerSecond);
+        sample.width = num(entry.frameWidth);
+        sample.height = num(entry.frameHeight);
+      }
+
+      // Rates need the previous reading of the same stream
+      const previous = this.counters.get(entry.id);
+      this.counters.set(entry.id, {
+        timestamp: entry.timestamp,
+        bytesReceived,
+        packetsReceived,
+        packetsLost,
+      });
+      if (!previous || entry.timestamp <= previous.timestamp) return;
+
+      const seconds = (entry.timestamp - previous.timestamp) / 1000;
+      const kbps = Math.round(((bytesReceived - previous.bytesReceived) * 8) / 1000 / seconds);
+      if (kind === "video") sample.videoKbps = Math.max(0, kbps);
+      if (kind === "audio") sample.audioKbps = Math.max(0, kbps);
+      received += Math.max(0, packetsReceived - previous.packetsReceived);
+      lost += Math.max(0, packetsLost - previous.packetsLost);
+    });
+
+    if (received + lost > 0) {
+      sample.packetLoss = Math.round((lost / (received + lost)) * 1000) / 10;
+    }
+    if (jitters.length > 0) {
+      sample.jitterMs = Math.round(Math.max(...jitters));
+    }
+    return sample;
+  }
+}
@@ -0,0 +1,37 @@
+import { LiveAvatarSessionMessage, MessageStatus } from "./types";
+
+export const createMessageId = () =>
+  `msg-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * A new chat message - gets an id, the current time and "completed" unless
+ * they are given
+ */
+export const createMessage = (
+  message: Omit<LiveAvatarSessionMessage, "id" | "timestamp" | "status"> &
+    Partial<Pick<LiveAvatarSessionMessage, "id" | "timestamp" | "status">>
+): LiveAvatarSessionMessage => ({
+  id: createMessageId(),
+  timestamp: Date.now(),
+  status: "completed",
+  ...message,
+});
+
+// Messages saved before ids and status existed had a cancelled flag instead
+type SavedMessage = Omit<LiveAvatarSessionMessage, "id" | "status"> &
+  Partial<Pick<LiveAvatarSessionMessage, "id" | "status">> & { cancelled?: boolean };
+
+/**
+ * Bring a message from a saved transcript up to the current shape
+ */
+export function upgradeMessage(saved: SavedMessage): LiveAvatarSessionMessage {
+  const { cancelled, ...message } = saved;
+  const status: MessageStatus = message.status ?? (cancelled ? "cancelled" : "completed");
+  return { ...message, id: message.id ?? createMessageId(), status };
+}
+
+/**
+ * Still being worked on - not worth saving or exporting yet
+ */
+export const isInProgress = (message: LiveAvatarSessionMessage) =>
+  message.status === "pending" || message.status === "streaming";
@@ -0,0 +1,228 @@
+import { AgentToolActivity } from "../gateway/types";
+
+/**
+ * Maps a tool event to a short line for the avatar to say while the agent works.
+ * `say` may be a fixed line, several lines to pick from, or a function of the
+ * event (return null to stay quiet for that call).
+ */
+export interface NarrationRule {
+  tool: string | RegExp;
+  // Defaults to "start"
+  phase?: AgentToolActivity["phase"];
+  say: string | string[] | ((activity: AgentToolActivity) => string | null);
+}
+
+export interface NarrationConfig {
+  rules: NarrationRule[];
+  // Nothing is said for runs that finish faster than this
+  initialDelayMs: number;
+  // Minimum gap between two narrated lines
+  minIntervalMs: number;
+  // Said once after initialDelayMs if no tool line was available
+  fallbackPhrases: string[];
+}
+
+/**
+ * Placeholder phrases to speak when OpenClaw takes longer than 2 seconds to respond
+ */
+const PROCESSING_PHRASES = [
+  "Let me think about that...",
+  "One moment please...",
+  "Let me check on that...",
+  "Give me a second...",
+  "Looking into that...",
+  "Hmm, let me see...",
+];
+
+const getStringArg = (
+  activity: AgentToolActivity,
+  keys: string[]
+): string | null => {
+  const args = activity.args as Record<string, unknown> | undefined;
+  if (!args || typeof args !== "object") return null;
+  for (const key of keys) {
+    if (typeof args[key] === "string" && args[key]) {
+      return args[key] as string;
+    }
+  }
+  return null;
+};
+
+// "src/app/config.ts" -> "the config file"
+const describeFile = (path: string | null): string => {
+  if (!path) return "the file";
+  const name = path.split(/[\\/]/).pop() || path;
+  const stem = name.replace(/\.[^.]+$/, "").replace(/[-_.]+/g, " ").trim();
+  return stem ? `the ${stem} file` : "the file";
+};
+
+const FILE_KEYS = ["path", "file_path", "filePath", "file"];
+
+export const DEFAULT_NARRATION_RULES: NarrationRule[] = [
+  {
+    tool: /^(read|read_file|view|cat)$/i,
+    say: (activity) =>
+      `I'm reading ${describeFile(getStringArg(activity, FILE_KEYS))} now.`,
+  },
+  {
+    tool: /^(write|edit|apply_patch|write_file|edit_file)$/i,
+    say: (activity) =>
+      `I'm updating ${describeFile(getStringArg(activity, FILE_KEYS))}.`,
+  },
+  {
+    tool: /^(exec|bash|shell|process|run)$/i,
+    say: (activity) => {
+      const command = getStringArg(activity, ["command", "cmd"]) || "";
+      if (/\b(test|jest|vitest|pytest|mocha)\b/i.test(command)) {
+        return "I'm running the tests.";
+      }
+      if (/\b(build|compile|tsc)\b/i.test(command)) {
+        return "I'm running the build.";
+      }
+      if (/\bgit\b/i.test(command)) {
+        return "Checking the repository.";
+      }
+      return "I'm running a command.";
+    },
+  },
+  {
+    tool: /^(grep|glob|find|search|ls)$/i,
+    say: ["Searching through the files.", "Looking through the project."],
+  },
+  {
+    tool: /^(web_search|web_fetch|browser|fetch)$/i,
+    say: ["Looking that up online.", "Checking the web for that."],
+  },
+  {
+    tool: /^(memory_search|memory_get)$/i,
+    say: "Checking my notes.",
+  },
+];
+
+export const DEFAULT_NARRATION_CONFIG: NarrationConfig = {
+  rules: DEFAULT_NARRATION_RULES,
+  initialDelayMs: 2000,
+  minIntervalMs: 6000,
+  fallbackPhrases: PROCESSING_PHRASES,
+};
+
+const pickRandom = (phrases: string[]): string | null => {
+  if (phrases.length === 0) return null;
+  return phrases[Math.floor(Math.random() * phrases.length)];
+};
+
+const matchesTool = (rule: NarrationRule, name: string): boolean => {
+  return typeof rule.tool === "string"
+    ? rule.tool.toLowerCase() === name.toLowerCase()
+    : rule.tool.test(name);
+};
+
+/**
+ * Narrates one agent turn from its tool events. Lines are rate-limited and
+ * only the most recent one is kept while waiting, so the avatar never falls
+ * behind what the agent is actually doing.
+ */
+export class ToolNarrator {
+  private speak: (text: string) => void;
+  private canSpeak: () => boolean;
+  private config: NarrationConfig;
+  private active = false;
+  private startedAt = 0;
+  private lastSpokenAt = 0;
+  private lastLine: string | null = null;
+  private pending: string | null = null;
+  private spokeAny = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    speak: (text: string) => void,
+    canSpeak: () => boolean,
+    config: NarrationConfig = DEFAULT_NARRATION_CONFIG
+  ) {
+    this.speak = speak;
+    this.canSpeak = canSpeak;
+    this.config = config;
+  }
+
+  start() {
+    this.active = true;
+    this.startedAt = Date.now();
+    this.schedule(this.config.initialDelayMs);
+  }
+
+  /**
+   * Stop narrating, e.g. once the real answer starts being spoken
+   */
+  stop() {
+    this.active = false;
+    this.pending = null;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  handleActivity(activity: AgentToolActivity) {
+    if (!this.active) return;
+    const line = this.lineFor(activity);
+    if (!line || line === this.lastLine) return;
+    this.pending = line;
+    this.schedule(this.nextSlot());
+  }
+
+  private lineFor(activity: AgentToolActivity): string | null {
+    for (const rule of this.config.rules) {
+      if ((rule.phase || "start") !== activity.phase) continue;
+      if (!matchesTool(rule, activity.name)) continue;
+      if (typeof rule.say === "function") return rule.say(activity);
+      return Array.isArray(rule.say) ? pickRandom(rule.say) : rule.say;
+    }
+    return null;
+  }
+
+  // Milliseconds until we're allowed to say something again
+  private nextSlot(): number {
+    const earliest = Math.max(
+      this.startedAt + this.config.initialDelayMs,
+      this.lastSpokenAt + this.config.minIntervalMs
+    );
+    return Math.max(0, earliest - Date.now());
+  }
+
+  private schedule(delay: number) {
+    if (this.timer) return;
+    this.timer = setTimeout(this.flush, delay);
+  }
+
+  private flush = () => {
+    this.timer = null;
+    if (!this.active) return;
+
+    const wait = this.nextSlot();
+    if (wait > 0) {
+      this.schedule(wait);
+      return;
+    }
+
+    // Nothing left to say for this turn
+    if (this.pending === null && this.spokeAny) return;
+
+    // Don't talk over the avatar - try again shortly
+    if (!this.canSpeak()) {
+      this.schedule(500);
+      return;
+    }
+
+    const line =
+      this.pending ??
+      (this.spokeAny ? null : pickRandom(this.config.fallbackPhrases));
+    this.pending = null;
+    if (!line) return;
+
+    console.log("[Avatar] Narrating progress:", line);
+    this.lastLine = line;
+    this.lastSpokenAt = Date.now();
+    this.spokeAny = true;
+    this.speak(line);
+  };
+}
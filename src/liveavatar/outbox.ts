@@ -0,0 +1,96 @@
+import { createIdempotencyKey } from "../gateway/client";
+
+const STORAGE_KEY = "openclaw-liveavatar:outbox";
+
+/**
+ * A user turn that couldn't be sent because the gateway was down.
+ * The idempotency key is kept so a flush that races a late delivery
+ * isn't run twice by the gateway.
+ */
+export interface OutboxEntry {
+  id: string;
+  text: string;
+  idempotencyKey: string;
+  createdAt: number;
+  // Gateway session the turn was meant for
+  sessionKey: string | null;
+}
+
+/**
+ * FIFO of unsent user turns, persisted to localStorage so they survive a reload
+ */
+export class Outbox {
+  private storage: Storage | null;
+  private entries: OutboxEntry[];
+
+  constructor(storage: Storage | null) {
+    this.storage = storage;
+    this.entries = this.load();
+  }
+
+  list(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  peek(): OutboxEntry | null {
+    return this.entries[0] || null;
+  }
+
+  add(text: string, sessionKey: string | null): OutboxEntry {
+    const entry: OutboxEntry = {
+      id: `outbox-${Date.now()}-${Math.random().toString(36).substring(2, 9)}`,
+      text,
+      idempotencyKey: createIdempotencyKey(),
+      createdAt: Date.now(),
+      sessionKey,
+    };
+    this.entries.push(entry);
+    this.save();
+    return entry;
+  }
+
+  remove(id: string) {
+    this.entries = this.entries.filter((entry) => entry.id !== id);
+    this.save();
+  }
+
+  private load(): OutboxEntry[] {
+    if (!this.storage) return [];
+    try {
+      const raw = this.storage.getItem(STORAGE_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      // Entries saved before turns were tied to a session have no sessionKey
+      return Array.isArray(parsed)
+        ? parsed.map((entry) => ({ ...entry, sessionKey: entry.sessionKey ?? null }))
+        : [];
+    } catch (err) {
+      console.error("[Outbox] Failed to load queued messages:", err);
+      return [];
+    }
+  }
+
+  private save() {
+    if (!this.storage) return;
+    try {
+      if (this.entries.length === 0) {
+        this.storage.removeItem(STORAGE_KEY);
+      } else {
+        this.storage.setItem(STORAGE_KEY, JSON.stringify(this.entries));
+      }
+    } catch (err) {
+      console.error("[Outbox] Failed to persist queued messages:", err);
+    }
+  }
+}
+
+// Singleton instance for the app
+let outbox: Outbox | null = null;
+
+export function getOutbox(): Outbox {
+  if (!outbox) {
+    outbox = new Outbox(
+      typeof window !== "undefined" ? window.localStorage : null
+    );
+  }
+  return outbox;
+}
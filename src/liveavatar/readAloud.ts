@@ -0,0 +1,125 @@
+import { LiveAvatarSession } from "@heygen/liveavatar-web-sdk";
+import { SpeechSegment, segmentForSpeech } from "../gateway/speechText";
+import { SpeechQueue } from "./speechQueue";
+import { LiveAvatarSessionMessage } from "./types";
+
+export interface ReadAloudState {
+  message: LiveAvatarSessionMessage;
+  segments: SpeechSegment[];
+  // Segment being spoken (or where playback will resume)
+  index: number;
+  paused: boolean;
+}
+
+/**
+ * Reads a whole chat message out one sentence at a time, so the sentence
+ * being spoken can be highlighted. Pausing and skipping cut the avatar off
+ * with session.interrupt(); resuming starts the sentence over.
+ */
+export class ReadAloudPlayer {
+  private session: LiveAvatarSession;
+  private speechQueue: SpeechQueue;
+  private onChange: (state: ReadAloudState | null) => void;
+  private _state: ReadAloudState | null = null;
+  // Bumped whenever playback is redirected, so a stale loop stops
+  private generation = 0;
+
+  constructor(
+    session: LiveAvatarSession,
+    speechQueue: SpeechQueue,
+    onChange: (state: ReadAloudState | null) => void
+  ) {
+    this.session = session;
+    this.speechQueue = speechQueue;
+    this.onChange = onChange;
+  }
+
+  get state(): ReadAloudState | null {
+    return this._state;
+  }
+
+  start(message: LiveAvatarSessionMessage) {
+    const segments = segmentForSpeech(message.message);
+    if (segments.length === 0) return;
+
+    // Whatever the avatar was saying gives way to the full answer
+    this.silence();
+    this.setState({ message, segments, index: 0, paused: false });
+    this.play();
+  }
+
+  pause() {
+    if (!this._state || this._state.paused) return;
+    this.generation++;
+    this.silence();
+    this.setState({ ...this._state, paused: true });
+  }
+
+  resume() {
+    if (!this._state || !this._state.paused) return;
+    this.setState({ ...this._state, paused: false });
+    this.play();
+  }
+
+  /**
+   * Move on to the next sentence, cutting off the current one
+   */
+  skip() {
+    if (!this._state) return;
+    this.generation++;
+    if (!this._state.paused) this.silence();
+
+    const index = this._state.index + 1;
+    if (index >= this._state.segments.length) {
+      this.setState(null);
+      return;
+    }
+    this.setState({ ...this._state, index });
+    if (!this._state.paused) this.play();
+  }
+
+  stop() {
+    if (!this._state) return;
+    this.generation++;
+    if (!this._state.paused) this.silence();
+    this.setState(null);
+  }
+
+  dispose() {
+    this.generation++;
+    this._state = null;
+  }
+
+  private async play() {
+    const generation = ++this.generation;
+
+    while (this._state && generation === this.generation) {
+      const segment = this._state.segments[this._state.index];
+      if (!segment) {
+        this.setState(null);
+        return;
+      }
+
+      this.speechQueue.enqueue(segment.spoken);
+      await this.speechQueue.whenIdle();
+      if (!this._state || generation !== this.generation) return;
+
+      this.setState({ ...this._state, index: this._state.index + 1 });
+    }
+  }
+
+  private silence() {
+    if (this.speechQueue.isIdle) return;
+    this.speechQueue.clear();
+    try {
+      this.session.interrupt();
+    } catch (err) {
+      console.error("[Avatar] Failed to interrupt avatar:", err);
+    }
+  }
+
+  private setState(state: ReadAloudState | null) {
+    this._state = state;
+    this.onChange(state);
+  }
+}
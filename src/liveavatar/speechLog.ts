@@ -0,0 +1,119 @@
+import {
+  AgentEventsEnum,
+  LiveAvatarSession,
+  SessionEvent,
+} from "@heygen/liveavatar-web-sdk";
+
+/**
+ * Something said out loud, with when it was said
+ */
+export interface Utterance {
+  speaker: "avatar" | "user";
+  text: string;
+  startedAt: number;
+  endedAt: number | null;
+}
+
+/**
+ * Records when the avatar and the user actually spoke, from the session's
+ * speak started/ended events, for captions that line up with the video
+ */
+export class SpeechLog {
+  private session: LiveAvatarSession;
+  private getSpeaking: () => string | null;
+  private _utterances: Utterance[] = [];
+  // When the stream started, captions are timed from here
+  private _startedAt = Date.now();
+
+  /**
+   * getSpeaking returns the text the avatar was asked to say, as written (see
+   * SpeechQueue.speaking)
+   */
+  constructor(session: LiveAvatarSession, getSpeaking: () => string | null) {
+    this.session = session;
+    this.getSpeaking = getSpeaking;
+    session.on(SessionEvent.SESSION_STREAM_READY, this.handleStreamReady);
+    session.on(AgentEventsEnum.AVATAR_SPEAK_STARTED, this.handleAvatarStarted);
+    session.on(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleAvatarEnded);
+    session.on(AgentEventsEnum.USER_SPEAK_STARTED, this.handleUserStarted);
+    session.on(AgentEventsEnum.USER_SPEAK_ENDED, this.handleUserEnded);
+    session.on(AgentEventsEnum.USER_TRANSCRIPTION, this.handleUserTranscription);
+  }
+
+  get startedAt(): number {
+    return this._startedAt;
+  }
+
+  /**
+   * Everything said so far with some text to it, oldest first
+   */
+  get utterances(): Utterance[] {
+    return this._utterances.filter((utterance) => utterance.text);
+  }
+
+  dispose() {
+    this.session.off(SessionEvent.SESSION_STREAM_READY, this.handleStreamReady);
+    this.session.off(AgentEventsEnum.AVATAR_SPEAK_STARTED, this.handleAvatarStarted);
+    this.session.off(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleAvatarEnded);
+    this.session.off(AgentEventsEnum.USER_SPEAK_STARTED, this.handleUserStarted);
+    this.session.off(AgentEventsEnum.USER_SPEAK_ENDED, this.handleUserEnded);
+    this.session.off(AgentEventsEnum.USER_TRANSCRIPTION, this.handleUserTranscription);
+  }
+
+  private lastOpen(speaker: Utterance["speaker"]): Utterance | undefined {
+    const last = [...this._utterances].reverse().find((u) => u.speaker === speaker);
+    return last && last.endedAt === null ? last : undefined;
+  }
+
+  private handleStreamReady = () => {
+    this._startedAt = Date.now();
+  };
+
+  private handleAvatarStarted = () => {
+    const now = Date.now();
+    // An interrupted line may never get its ended event
+    const open = this.lastOpen("avatar");
+    if (open) open.endedAt = now;
+    this._utterances.push({
+      speaker: "avatar",
+      text: this.getSpeaking() ?? "",
+      startedAt: now,
+      endedAt: null,
+    });
+  };
+
+  private handleAvatarEnded = () => {
+    const open = this.lastOpen("avatar");
+    if (open) open.endedAt = Date.now();
+  };
+
+  private handleUserStarted = () => {
+    this._utterances.push({
+      speaker: "user",
+      text: "",
+      startedAt: Date.now(),
+      endedAt: null,
+    });
+  };
+
+  private handleUserEnded = () => {
+    const open = this.lastOpen("user");
+    if (open) open.endedAt = Date.now();
+  };
+
+  // The transcription arrives after the user stopped talking
+  private handleUserTranscription = (data: { text?: string }) => {
+    const text = data.text?.trim();
+    if (!text) return;
+    const pending = [...this._utterances]
+      .reverse()
+      .find((u) => u.speaker === "user" && !u.text);
+    if (pending) {
+      pending.text = text;
+      pending.endedAt = pending.endedAt ?? Date.now();
+    } else {
+      const now = Date.now();
+      this._utterances.push({ speaker: "user", text, startedAt: now, endedAt: now });
+    }
+  };
+}
@@ -0,0 +1,181 @@
+import {
+  AgentEventsEnum,
+  LiveAvatarSession,
+  SessionState,
+} from "@heygen/liveavatar-web-sdk";
+import { LexiconEntry, applyLexicon } from "./lexicon";
+
+/**
+ * Upper bound on how long we wait for AVATAR_SPEAK_ENDED before moving on,
+ * in case the event never arrives (e.g. the repeat was dropped)
+ */
+const estimateSpeechTimeout = (text: string): number => {
+  return 5000 + text.length * 80;
+};
+
+/**
+ * How long a line that was cut off gets to report AVATAR_SPEAK_ENDED before
+ * the next one is spoken anyway
+ */
+const CUT_OFF_TIMEOUT_MS = 2000;
+
+interface QueuedSpeech {
+  text: string;
+  // Lexicon to say this with instead of the current one
+  lexicon?: LexiconEntry[];
+}
+
+interface CurrentSpeech {
+  // As written, for captions
+  text: string;
+  // With the lexicon applied, as handed to the avatar
+  spoken: string;
+}
+
+/**
+ * Serialises session.repeat calls so streamed sentences, fillers and
+ * replies are spoken one after another instead of talking over each other
+ */
+export class SpeechQueue {
+  private session: LiveAvatarSession;
+  private queue: QueuedSpeech[] = [];
+  private current: CurrentSpeech | null = null;
+  private lexicon: LexiconEntry[] = [];
+  private muted = false;
+  private fallbackTimer: ReturnType<typeof setTimeout> | null = null;
+  // A line was cleared while the avatar was still saying it - its
+  // AVATAR_SPEAK_ENDED is still to come and mustn't end the next line
+  private awaitingCutOff = false;
+  private cutOffTimer: ReturnType<typeof setTimeout> | null = null;
+  private idleResolvers: (() => void)[] = [];
+
+  constructor(session: LiveAvatarSession) {
+    this.session = session;
+    this.session.on(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleSpeakEnded);
+  }
+
+  get isIdle(): boolean {
+    return this.current === null && this.queue.length === 0;
+  }
+
+  /**
+   * What the avatar hasn't finished saying yet, as written - before the
+   * lexicon respelled it
+   */
+  get speaking(): string | null {
+    return this.current?.text ?? null;
+  }
+
+  /**
+   * Pronunciation fixes applied to everything spoken from now on
+   */
+  setLexicon(entries: LexiconEntry[]) {
+    this.lexicon = entries;
+  }
+
+  /**
+   * Drop everything instead of speaking it, e.g. in text-only mode
+   */
+  setMuted(muted: boolean) {
+    this.muted = muted;
+    if (muted) this.clear();
+  }
+
+  enqueue(text: string, options: { lexicon?: LexiconEntry[] } = {}) {
+    const trimmed = text.trim();
+    if (!trimmed || this.muted) return;
+    this.queue.push({ text: trimmed, lexicon: options.lexicon });
+    if (this.current === null && !this.awaitingCutOff) {
+      this.speakNext();
+    }
+  }
+
+  /**
+   * Drop everything that hasn't been spoken yet
+   */
+  clear() {
+    this.queue = [];
+    if (this.fallbackTimer) {
+      clearTimeout(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+    if (this.current !== null) {
+      this.awaitingCutOff = true;
+      this.cutOffTimer = setTimeout(this.handleCutOffEnded, CUT_OFF_TIMEOUT_MS);
+    }
+    this.speakNext();
+  }
+
+  /**
+   * Resolves once the queue has been fully spoken
+   */
+  whenIdle(): Promise<void> {
+    if (this.isIdle) return Promise.resolve();
+    return new Promise((resolve) => this.idleResolvers.push(resolve));
+  }
+
+  dispose() {
+    this.clear();
+    if (this.cutOffTimer) {
+      clearTimeout(this.cutOffTimer);
+      this.cutOffTimer = null;
+    }
+    this.session.off(AgentEventsEnum.AVATAR_SPEAK_ENDED, this.handleSpeakEnded);
+  }
+
+  private speakNext() {
+    const next = this.queue.shift();
+    if (next === undefined) {
+      this.current = null;
+      const resolvers = this.idleResolvers;
+      this.idleResolvers = [];
+      resolvers.forEach((resolve) => resolve());
+      return;
+    }
+
+    if (this.session.state !== SessionState.CONNECTED) {
+      console.log("[Avatar] Session not connected, dropping speech:", next.text);
+      this.speakNext();
+      return;
+    }
+
+    const spoken = applyLexicon(next.text, next.lexicon ?? this.lexicon);
+    this.current = { text: next.text, spoken };
+    this.fallbackTimer = setTimeout(
+      this.handleSpeakEnded,
+      estimateSpeechTimeout(spoken)
+    );
+
+    try {
+      console.log("[Avatar] Speaking:", spoken);
+      this.session.repeat(spoken);
+    } catch (err) {
+      console.error("[Avatar] Failed to make avatar speak:", err);
+      this.handleSpeakEnded();
+    }
+  }
+
+  private handleSpeakEnded = () => {
+    if (this.awaitingCutOff) {
+      this.handleCutOffEnded();
+      return;
+    }
+    if (this.current === null) return;
+    if (this.fallbackTimer) {
+      clearTimeout(this.fallbackTimer);
+      this.fallbackTimer = null;
+    }
+    this.speakNext();
+  };
+
+  // The cut-off line is done - whatever was queued since can go
+  private handleCutOffEnded = () => {
+    if (!this.awaitingCutOff) return;
+    this.awaitingCutOff = false;
+    if (this.cutOffTimer) {
+      clearTimeout(this.cutOffTimer);
+      this.cutOffTimer = null;
+    }
+    if (this.queue.length > 0) this.speakNext();
+  };
+}
@@ -0,0 +1,127 @@
+// Stand-in for LiveAvatarSession when there is no avatar (no LiveAvatar key
+// or no credits left) - the chat still runs against the gateway, and replies
+// can be read out with the browser's speechSynthesis
+
+import { EventEmitter } from "events";
+import {
+  AgentEventsEnum,
+  ConnectionQuality,
+  LiveAvatarSession,
+  SessionDisconnectReason,
+  SessionEvent,
+  SessionState,
+} from "@heygen/liveavatar-web-sdk";
+import { FakeVoiceChat } from "./fakeSession";
+import { LiveAvatarSessionFactory } from "./types";
+
+let eventId = 0;
+const nextEventId = () => `text-event-${++eventId}`;
+
+const getSpeechSynthesis = (): SpeechSynthesis | null =>
+  typeof window !== "undefined" && "speechSynthesis" in window ? window.speechSynthesis : null;
+
+/**
+ * True when the browser can read replies out loud
+ */
+export const isSpeechSynthesisAvailable = () => getSpeechSynthesis() !== null;
+
+export class TextModeSession extends EventEmitter {
+  // No microphone - the user types
+  readonly voiceChat = new FakeVoiceChat();
+  readonly maxSessionDuration: number | null = null;
+
+  private _state = SessionState.INACTIVE;
+  private utterance: SpeechSynthesisUtterance | null = null;
+
+  get state(): SessionState {
+    return this._state;
+  }
+
+  get connectionQuality(): ConnectionQuality {
+    return ConnectionQuality.GOOD;
+  }
+
+  async start() {
+    this.setState(SessionState.CONNECTING);
+    this.setState(SessionState.CONNECTED);
+    this.emit(SessionEvent.SESSION_STREAM_READY);
+  }
+
+  async stop() {
+    this.interrupt();
+    this.setState(SessionState.DISCONNECTING);
+    this.setState(SessionState.DISCONNECTED);
+    this.emit(SessionEvent.SESSION_DISCONNECTED, SessionDisconnectReason.CLIENT_INITIATED);
+  }
+
+  async keepAlive() {}
+
+  attach() {
+    // Nothing to show
+  }
+
+  message() {}
+
+  repeat(message: string) {
+    const synth = getSpeechSynthesis();
+    // A new line cuts off whatever was being said
+    this.interrupt();
+
+    if (!synth) {
+      // Nothing to say it with - let the speech queue move on
+      this.emitAgentEvent(AgentEventsEnum.AVATAR_SPEAK_STARTED);
+      setTimeout(() => this.emitAgentEvent(AgentEventsEnum.AVATAR_SPEAK_ENDED), 0);
+      return;
+    }
+
+    const utterance = new SpeechSynthesisUtterance(message);
+    utterance.lang = navigator.language;
+    utterance.onstart = () => {
+      if (this.utterance === utterance) {
+        this.emitAgentEvent(AgentEventsEnum.AVATAR_SPEAK_STARTED);
+      }
+    };
+    const finish = () => {
+      if (this.utterance !== utterance) return;
+      this.utterance = null;
+      this.emitAgentEvent(AgentEventsEnum.AVATAR_SPEAK_ENDED);
+    };
+    utterance.onend = finish;
+    utterance.onerror = (event) => {
+      console.error("[Speech] Browser speech failed:", event.error);
+      finish();
+    };
+    this.utterance = utterance;
+    synth.speak(utterance);
+  }
+
+  repeatAudio() {}
+
+  startListening() {}
+
+  stopListening() {}
+
+  interrupt() {
+    if (!this.utterance) return;
+    this.utterance = null;
+    getSpeechSynthesis()?.cancel();
+    this.emitAgentEvent(AgentEventsEnum.AVATAR_SPEAK_ENDED);
+  }
+
+  private emitAgentEvent(
+    type: AgentEventsEnum.AVATAR_SPEAK_STARTED | AgentEventsEnum.AVATAR_SPEAK_ENDED
+  ) {
+    this.emit(type, { event_id: nextEventId(), event_type: type });
+  }
+
+  private setState(state: SessionState) {
+    this._state = state;
+    this.emit(SessionEvent.SESSION_STATE_CHANGED, state);
+  }
+}
+
+/**
+ * Session factory for running the chat without an avatar
+ */
+export const createTextModeSession: LiveAvatarSessionFactory = () =>
+  new TextModeSession() as unknown as LiveAvatarSession;
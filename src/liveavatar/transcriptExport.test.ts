@@ -0,0 +1,50 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { LiveAvatarSession } from "@heygen/liveavatar-web-sdk";
+import { FakeLiveAvatarSession } from "./fakeSession";
+import { createLexiconEntry } from "./lexicon";
+import { SpeechLog } from "./speechLog";
+import { SpeechQueue } from "./speechQueue";
+import { ConversationExport, formatConversation } from "./transcriptExport";
+
+describe("transcript export", () => {
+  let session: FakeLiveAvatarSession;
+  let queue: SpeechQueue;
+  let log: SpeechLog;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    session = new FakeLiveAvatarSession({}, { speakMsPerChar: 1 });
+    const liveSession = session as unknown as LiveAvatarSession;
+    queue = new SpeechQueue(liveSession);
+    log = new SpeechLog(liveSession, () => queue.speaking);
+    await session.start();
+  });
+
+  afterEach(() => {
+    log.dispose();
+    queue.dispose();
+    vi.restoreAllMocks();
+  });
+
+  const exportData = (): ConversationExport => ({
+    title: "Test",
+    sessionKey: null,
+    messages: [],
+    utterances: log.utterances,
+    startedAt: log.startedAt,
+  });
+
+  it("captions what the agent wrote, not the lexicon's respelling", async () => {
+    queue.setLexicon([createLexiconEntry({ match: "CLI", spoken: "C L I" })]);
+
+    queue.enqueue("Open the CLI.");
+    await queue.whenIdle();
+
+    expect(session.spoken).toEqual(["Open the C L I."]);
+    for (const format of ["vtt", "srt", "json"] as const) {
+      const exported = formatConversation(exportData(), format);
+      expect(exported).toContain("Open the CLI.");
+      expect(exported).not.toContain("C L I");
+    }
+  });
+});
@@ -0,0 +1,182 @@
+// Conversation export - Markdown for reading, JSON for tooling and WebVTT/SRT
+// captions timed to when the avatar (and the user) actually spoke
+
+import { isInProgress } from "./messages";
+import { Utterance } from "./speechLog";
+import { LiveAvatarSessionMessage, MessageSender } from "./types";
+
+export type ExportFormat = "markdown" | "json" | "vtt" | "srt";
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  markdown: "Markdown",
+  json: "JSON",
+  vtt: "WebVTT captions",
+  srt: "SRT captions",
+};
+
+const EXTENSIONS: Record<ExportFormat, string> = {
+  markdown: "md",
+  json: "json",
+  vtt: "vtt",
+  srt: "srt",
+};
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  markdown: "text/markdown",
+  json: "application/json",
+  vtt: "text/vtt",
+  srt: "application/x-subrip",
+};
+
+export interface ConversationExport {
+  title: string;
+  sessionKey: string | null;
+  messages: LiveAvatarSessionMessage[];
+  utterances: Utterance[];
+  // When the avatar stream started - caption times count from here
+  startedAt: number;
+}
+
+const speakerName = (sender: MessageSender) =>
+  sender === MessageSender.USER ? "User" : "Avatar";
+
+const utteranceSpeaker = (speaker: Utterance["speaker"]) =>
+  speaker === "user" ? "User" : "Avatar";
+
+// Messages still waiting in the outbox were never part of the conversation,
+// and a reply still coming in has nothing to show yet
+const exportedMessages = (messages: LiveAvatarSessionMessage[]) =>
+  messages.filter((message) => !isInProgress(message));
+
+function toMarkdown({ title, sessionKey, messages }: ConversationExport): string {
+  const lines = [`# ${title}`, ""];
+  if (sessionKey) lines.push(`Session: \`${sessionKey}\``, "");
+
+  exportedMessages(messages).forEach((message) => {
+    const time = new Date(message.timestamp).toLocaleString();
+    const status =
+      message.status === "cancelled" ? " (interrupted)" : message.status === "failed" ? " (failed)" : "";
+    lines.push(`**${speakerName(message.sender)}** · ${time}${status}`, "", message.message, "");
+    if (message.spokenText && message.spokenText !== message.message) {
+      lines.push(`> Spoken: ${message.spokenText}`, "");
+    }
+  });
+  return lines.join("\n");
+}
+
+function toJson({ title, sessionKey, messages, utterances, startedAt }: ConversationExport): string {
+  return JSON.stringify(
+    {
+      version: 1,
+      title,
+      sessionKey,
+      exportedAt: new Date().toISOString(),
+      messages: exportedMessages(messages).map((message) => ({
+        id: message.id,
+        speaker: message.sender === MessageSender.USER ? "user" : "avatar",
+        source: message.source ?? null,
+        timestamp: new Date(message.timestamp).toISOString(),
+        status: message.status,
+        runId: message.runId ?? null,
+        text: message.message,
+        spokenText: message.spokenText ?? null,
+        latency: message.latency ?? null,
+        attachments: message.attachments ?? [],
+      })),
+      speech: utterances.map((utterance) => ({
+        speaker: utterance.speaker,
+        text: utterance.text,
+        start: (utterance.startedAt - startedAt) / 1000,
+        end: utterance.endedAt === null ? null : (utterance.endedAt - startedAt) / 1000,
+      })),
+    },
+    null,
+    2
+  );
+}
+
+// hh:mm:ss.mmm (WebVTT) or hh:mm:ss,mmm (SRT)
+const formatCueTime = (ms: number, separator: "." | ",") => {
+  const total = Math.max(0, Math.round(ms));
+  const pad = (value: number, size = 2) => String(value).padStart(size, "0");
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(total % 1000, 3)}`;
+};
+
+interface Cue {
+  start: number;
+  end: number;
+  speaker: string;
+  text: string;
+}
+
+// An utterance still in progress runs for a couple of seconds
+const OPEN_CUE_MS = 2000;
+
+const toCues = ({ utterances, startedAt }: ConversationExport): Cue[] =>
+  utterances.map((utterance) => {
+    const start = utterance.startedAt - startedAt;
+    const end = (utterance.endedAt ?? utterance.startedAt + OPEN_CUE_MS) - startedAt;
+    return {
+      start,
+      // Zero-length cues are dropped by players
+      end: Math.max(end, start + 500),
+      speaker: utteranceSpeaker(utterance.speaker),
+      text: utterance.text.replace(/\n+/g, " "),
+    };
+  });
+
+function toVtt(data: ConversationExport): string {
+  const cues = toCues(data).map(
+    (cue, i) =>
+      `${i + 1}\n${formatCueTime(cue.start, ".")} --> ${formatCueTime(cue.end, ".")}\n` +
+      `<v ${cue.speaker}>${cue.text.replace(/&/g, "&amp;").replace(/</g, "&lt;")}`
+  );
+  return ["WEBVTT", ...cues].join("\n\n") + "\n";
+}
+
+function toSrt(data: ConversationExport): string {
+  return (
+    toCues(data)
+      .map(
+        (cue, i) =>
+          `${i + 1}\n${formatCueTime(cue.start, ",")} --> ${formatCueTime(cue.end, ",")}\n` +
+          `${cue.speaker}: ${cue.text}`
+      )
+      .join("\n\n") + "\n"
+  );
+}
+
+export function formatConversation(data: ConversationExport, format: ExportFormat): string {
+  switch (format) {
+    case "markdown":
+      return toMarkdown(data);
+    case "json":
+      return toJson(data);
+    case "vtt":
+      return toVtt(data);
+    case "srt":
+      return toSrt(data);
+  }
+}
+
+/**
+ * Save the conversation as a file through the browser
+ */
+export function downloadConversation(data: ConversationExport, format: ExportFormat) {
+  const blob = new Blob([formatConversation(data, format)], {
+    type: `${MIME_TYPES[format]};charset=utf-8`,
+  });
+  const date = new Date().toISOString().slice(0, 10);
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `conversation-${date}.${EXTENSIONS[format]}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Give the download a moment to start before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -0,0 +1,109 @@
+// Saved conversations, kept in IndexedDB so they survive a reload, an avatar
+// switch or the end of the session
+// One transcript per conversation, tagged with the gateway session key it
+// belongs to ("demo" for demo mode)
+
+import { LiveAvatarSessionMessage } from "./types";
+
+const DB_NAME = "openclaw-liveavatar";
+const DB_VERSION = 1;
+const STORE_NAME = "transcripts";
+
+// Session key used for conversations held in demo mode
+export const DEMO_SESSION_KEY = "demo";
+
+export interface Transcript {
+  id: string;
+  sessionKey: string;
+  // First thing the user said, for the history list
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  messages: LiveAvatarSessionMessage[];
+}
+
+export type TranscriptSummary = Omit<Transcript, "messages"> & {
+  messageCount: number;
+};
+
+export const createTranscriptId = () =>
+  `conv-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === "undefined") {
+    return Promise.reject(new Error("IndexedDB is not available"));
+  }
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+        store.createIndex("sessionKey", "sessionKey");
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const byMostRecent = (a: { updatedAt: number }, b: { updatedAt: number }) =>
+  b.updatedAt - a.updatedAt;
+
+/**
+ * All saved conversations, most recent first
+ */
+export async function listTranscripts(): Promise<TranscriptSummary[]> {
+  const transcripts = await runRequest<Transcript[]>("readonly", (store) =>
+    store.getAll()
+  );
+  return transcripts
+    .map(({ messages, ...summary }) => ({ ...summary, messageCount: messages.length }))
+    .sort(byMostRecent);
+}
+
+export async function getTranscript(id: string): Promise<Transcript | null> {
+  const transcript = await runRequest<Transcript | undefined>("readonly", (store) =>
+    store.get(id)
+  );
+  return transcript ?? null;
+}
+
+/**
+ * Most recent conversation for a gateway session
+ */
+export async function getLatestTranscript(sessionKey: string): Promise<Transcript | null> {
+  const transcripts = await runRequest<Transcript[]>("readonly", (store) =>
+    store.index("sessionKey").getAll(sessionKey)
+  );
+  return transcripts.sort(byMostRecent)[0] ?? null;
+}
+
+export async function saveTranscript(transcript: Transcript): Promise<void> {
+  await runRequest("readwrite", (store) => store.put(transcript));
+}
+
+export async function deleteTranscript(id: string): Promise<void> {
+  await runRequest("readwrite", (store) => store.delete(id));
+}
+
+export async function clearTranscripts(): Promise<void> {
+  await runRequest("readwrite", (store) => store.clear());
+}
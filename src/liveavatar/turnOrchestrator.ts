@@ -0,0 +1,425 @@
+import { LiveAvatarSession, SessionState } from "@heygen/liveavatar-web-sdk";
+import { GatewayConnectionError, OpenClawGatewayClient } from "../gateway/client";
+import { ResponseFormat } from "../gateway/responseFormat";
+import { SpeechPolicy, extractSpeech } from "../gateway/speechStream";
+import { chunkSentences } from "../gateway/speechText";
+import { AgentActivity, AgentResponse } from "../gateway/types";
+import {
+  AgentActivityEntry,
+  LiveAvatarSessionMessage,
+  MessageLatency,
+  MessageSender,
+} from "./types";
+import { createMessage } from "./messages";
+import { SpeechQueue } from "./speechQueue";
+import { applyAgentActivity, settleAgentActivity } from "./agentActivity";
+import { NarrationConfig, ToolNarrator } from "./narration";
+import { OutboxEntry, getOutbox } from "./outbox";
+import { getDemoResponse, truncateForTTS } from "./demo";
+import { LatencyTracker, TurnMark, TurnTiming } from "./latency";
+
+/**
+ * Where the conversation is:
+ * - listening: waiting for the user
+ * - sending: turn sent, nothing back from the agent yet
+ * - streaming: the agent is working on it (tool calls, reply streaming in)
+ * - speaking: the reply is in, the avatar is still saying it
+ */
+export type TurnPhase = "listening" | "sending" | "streaming" | "speaking";
+
+export interface UserTurn {
+  text: string;
+  source: "voice" | "typed";
+  // Set when flushing a turn that was held in the outbox
+  queued?: OutboxEntry;
+}
+
+export interface TurnOrchestratorOptions {
+  isDemoMode: boolean;
+  // Speak sentences as they stream in instead of waiting for the whole run
+  streamSpeech: boolean;
+  narration: NarrationConfig | null;
+  responseFormat: ResponseFormat;
+  // How much of each reply the avatar says
+  speechPolicy: SpeechPolicy;
+}
+
+export interface TurnOrchestratorCallbacks {
+  addMessage: (message: LiveAvatarSessionMessage) => void;
+  updateMessage: (id: string, update: Partial<LiveAvatarSessionMessage>) => void;
+  setDelivery: (
+    outboxId: string,
+    delivery: LiveAvatarSessionMessage["delivery"]
+  ) => void;
+  setActivity: (entries: AgentActivityEntry[]) => void;
+  // The gateway dropped after being live - hold the turn in the outbox
+  queueOffline: (text: string, source: UserTurn["source"]) => void;
+  onStateChange: (phase: TurnPhase, pendingTurns: number) => void;
+  // The user cut the avatar off (barge-in)
+  onInterrupt?: () => void;
+}
+
+interface PendingTurn {
+  turn: UserTurn;
+  timing: TurnTiming | null;
+  done: () => void;
+}
+
+/**
+ * Runs user turns one at a time: send to the agent (or answer from the demo
+ * FAQ), show the reply, and let the avatar finish saying it before the next
+ * turn starts. Turns arriving in the meantime wait in a FIFO, so a question
+ * asked mid-answer is handled after it rather than racing it.
+ */
+export class TurnOrchestrator {
+  private session: LiveAvatarSession;
+  private speechQueue: SpeechQueue;
+  private gateway: OpenClawGatewayClient;
+  private callbacks: TurnOrchestratorCallbacks;
+  private options: TurnOrchestratorOptions;
+  private latency: LatencyTracker | null;
+  private pending: PendingTurn[] = [];
+  private running = false;
+  private disposed = false;
+  private activeTurn: AbortController | null = null;
+  private _phase: TurnPhase = "listening";
+
+  constructor(
+    session: LiveAvatarSession,
+    speechQueue: SpeechQueue,
+    gateway: OpenClawGatewayClient,
+    callbacks: TurnOrchestratorCallbacks,
+    options: TurnOrchestratorOptions,
+    latency: LatencyTracker | null = null
+  ) {
+    this.session = session;
+    this.speechQueue = speechQueue;
+    this.gateway = gateway;
+    this.callbacks = callbacks;
+    this.options = options;
+    this.latency = latency;
+  }
+
+  get phase(): TurnPhase {
+    return this._phase;
+  }
+
+  get pendingTurns(): number {
+    return this.pending.length;
+  }
+
+  configure(options: Partial<TurnOrchestratorOptions>) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Queue a user turn. Resolves once it has been answered (or dropped).
+   */
+  submit(turn: UserTurn): Promise<void> {
+    if (this.disposed) return Promise.resolve();
+
+    if (!turn.queued) {
+      // Lost the gateway after being live - hold the turn until it's back
+      if (!this.options.isDemoMode && this.gateway.state !== "connected") {
+        this.callbacks.queueOffline(turn.text, turn.source);
+        return Promise.resolve();
+      }
+
+      this.callbacks.addMessage(
+        createMessage({
+          sender: MessageSender.USER,
+          message: turn.text,
+          source: turn.source,
+        })
+      );
+    }
+
+    // A turn from the outbox has been waiting since it was queued, which
+    // shows as queue time
+    const timing = this.latency?.begin(turn.source, turn.queued?.createdAt) ?? null;
+    return new Promise((resolve) => {
+      this.pending.push({ turn, timing, done: resolve });
+      this.notify();
+      this.processNext();
+    });
+  }
+
+  /**
+   * Stop the avatar and cancel the turn in progress (barge-in). Queued turns
+   * are kept.
+   */
+  interrupt() {
+    this.callbacks.onInterrupt?.();
+    this.speechQueue.clear();
+    try {
+      this.session.interrupt();
+    } catch (err) {
+      console.error("[Avatar] Failed to interrupt avatar:", err);
+    }
+    this.activeTurn?.abort();
+    this.activeTurn = null;
+  }
+
+  dispose() {
+    this.disposed = true;
+    this.activeTurn?.abort();
+    this.activeTurn = null;
+    const pending = this.pending;
+    this.pending = [];
+    pending.forEach(({ done }) => done());
+  }
+
+  private setPhase(phase: TurnPhase) {
+    if (this._phase === phase) return;
+    this._phase = phase;
+    this.notify();
+  }
+
+  private notify() {
+    this.callbacks.onStateChange(this._phase, this.pending.length);
+  }
+
+  private async processNext() {
+    if (this.running || this.disposed) return;
+
+    const next = this.pending.shift();
+    if (!next) {
+      this.setPhase("listening");
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.runTurn(next.turn, next.timing);
+    } finally {
+      this.running = false;
+      next.done();
+      this.processNext();
+    }
+  }
+
+  private async runTurn({ text, source, queued }: UserTurn, timing: TurnTiming | null) {
+    const { isDemoMode, streamSpeech, narration, responseFormat, speechPolicy } =
+      this.options;
+    const turn = new AbortController();
+    this.activeTurn = turn;
+    this.setPhase("sending");
+    const mark = (point: TurnMark) => {
+      if (timing) this.latency?.mark(timing, point);
+    };
+    mark("sent");
+
+    // The reply is shown as pending straight away and filled in as it comes
+    const reply = createMessage({
+      sender: MessageSender.AVATAR,
+      message: "",
+      status: "pending",
+      source,
+    });
+    this.callbacks.addMessage(reply);
+
+    const sentAt = Date.now();
+    const latency: MessageLatency = {};
+    const markStreaming = () => {
+      this.setPhase("streaming");
+      if (latency.firstEventMs !== undefined) return;
+      latency.firstEventMs = Date.now() - sentAt;
+      this.callbacks.updateMessage(reply.id, { status: "streaming" });
+    };
+
+    // Tool calls and reasoning streamed in for this turn
+    let activity: AgentActivityEntry[] = [];
+    this.callbacks.setActivity(activity);
+    const onActivity = (event: AgentActivity) => {
+      activity = applyAgentActivity(activity, event);
+      this.callbacks.setActivity(activity);
+    };
+
+    // A queued turn is delivered once the gateway has accepted it, however
+    // the run then goes
+    let accepted = false;
+    const onAccepted = () => {
+      accepted = true;
+      mark("accepted");
+      if (queued) {
+        getOutbox().remove(queued.id);
+        this.callbacks.setDelivery(queued.id, "sent");
+      }
+    };
+
+    try {
+      let responseText: string;
+      let runId: string | undefined;
+      let failed = false;
+      // Sentences already handed to the avatar as the reply streamed in
+      const streamed: string[] = [];
+
+      if (isDemoMode) {
+        // Demo mode: use comprehensive FAQ responses
+        console.log(`[Demo] Processing ${source} message locally:`, text);
+        responseText = getDemoResponse(text);
+      } else if (this.gateway.state !== "connected") {
+        console.warn("[OpenClaw] Gateway not connected, cannot send message");
+        responseText = "I'm not connected to the agent. Please check the Gateway connection.";
+        failed = true;
+      } else {
+        console.log(`[OpenClaw] Sending ${source} message to agent:`, text);
+
+        // Narrate what the agent is doing if the response takes a while
+        const narrator =
+          narration && this.session.state === SessionState.CONNECTED
+            ? new ToolNarrator(
+                // Fillers aren't the answer - they're left out of the speech timings
+                (line) => this.speechQueue.enqueue(line),
+                () => this.speechQueue.isIdle,
+                narration
+              )
+            : null;
+        narrator?.start();
+
+        // Speak sentences as they stream in instead of waiting for the whole run
+        const onSpeech = streamSpeech
+          ? (sentence: string) => {
+              narrator?.stop();
+              markStreaming();
+              if (streamed.length === 0) latency.firstSpeechMs = Date.now() - sentAt;
+              streamed.push(sentence);
+              this.callbacks.updateMessage(reply.id, { spokenText: streamed.join(" ") });
+              mark("speechQueued");
+              this.speechQueue.enqueue(sentence);
+            }
+          : undefined;
+
+        let response: AgentResponse;
+        try {
+          response = await this.gateway.sendToAgent(text, {
+            onSpeech,
+            onActivity: (event) => {
+              markStreaming();
+              onActivity(event);
+              if (event.kind === "tool") {
+                narrator?.handleActivity(event);
+              }
+            },
+            onAccepted,
+            onDelta: () => mark("firstDelta"),
+            signal: turn.signal,
+            idempotencyKey: queued?.idempotencyKey,
+            responseFormat,
+            speechPolicy,
+          });
+        } finally {
+          // Stop narrating once the answer is in
+          narrator?.stop();
+          mark("runEnded");
+        }
+
+        console.log("[OpenClaw] Agent response:", response);
+        runId = response.runId;
+
+        if (response.status === "cancelled") {
+          // Keep whatever streamed in before the user cut in
+          responseText = response.text || "";
+        } else if (response.status === "completed" && response.text) {
+          responseText = response.text;
+        } else {
+          responseText = "Sorry, I didn't get a response from the agent.";
+          streamed.length = 0;
+          failed = true;
+        }
+      }
+
+      // Parse response to extract TTS summary and full message
+      let ttsText = responseText;
+      let displayText = responseText;
+
+      if (!isDemoMode) {
+        const parsed = this.gateway.parseResponse(responseText, speechPolicy);
+        ttsText = parsed.tts;
+        displayText = parsed.full;
+      } else {
+        // Demo mode: just truncate for TTS
+        ttsText =
+          speechPolicy === "summary"
+            ? truncateForTTS(responseText)
+            : extractSpeech(responseText, speechPolicy);
+      }
+
+      const settledActivity = activity.length
+        ? settleAgentActivity(activity)
+        : undefined;
+      const streamedSpeech = streamed.length > 0;
+      const spokenText = streamedSpeech ? streamed.join(" ") : ttsText;
+      latency.totalMs = Date.now() - sentAt;
+
+      if (turn.signal.aborted) {
+        this.callbacks.updateMessage(reply.id, {
+          message: displayText || "Interrupted",
+          timestamp: Date.now(),
+          status: "cancelled",
+          activity: settledActivity,
+          runId,
+          spokenText: streamedSpeech ? spokenText : undefined,
+          latency,
+        });
+        return;
+      }
+
+      // Make avatar speak - only the TTS summary, unless it was already streamed
+      // The speech queue keeps it behind any placeholder that is still playing
+      // Longer text (e.g. the full reply) is said a few sentences at a time
+      if (!streamedSpeech && ttsText) {
+        console.log("[Avatar] Speaking TTS summary:", ttsText);
+        latency.firstSpeechMs = Date.now() - sentAt;
+        mark("speechQueued");
+        chunkSentences(ttsText).forEach((chunk) => this.speechQueue.enqueue(chunk));
+      }
+
+      // Fill in the full response (without the TTS block)
+      this.callbacks.updateMessage(reply.id, {
+        message: displayText,
+        timestamp: Date.now(),
+        status: failed ? "failed" : "completed",
+        // The app's own error message rather than the agent's reply
+        source: failed ? "system" : source,
+        activity: settledActivity,
+        runId,
+        spokenText: spokenText || undefined,
+        latency,
+      });
+
+      // The next turn waits until the avatar is done with this one
+      this.setPhase("speaking");
+      this.callbacks.setActivity([]);
+      await this.speechQueue.whenIdle();
+    } catch (err) {
+      console.error("[Chat] Failed to process message:", err);
+      if (queued && !accepted && err instanceof GatewayConnectionError) {
+        // Never got through - it stays in the outbox for the next flush
+        this.callbacks.updateMessage(reply.id, {
+          message: "Lost the connection to the agent. I'll send that again once it's back.",
+          timestamp: Date.now(),
+          status: "failed",
+          source: "system",
+        });
+        return;
+      }
+      if (queued && !accepted) {
+        getOutbox().remove(queued.id);
+        this.callbacks.setDelivery(queued.id, "failed");
+      }
+      this.callbacks.updateMessage(reply.id, {
+        message: "Sorry, I couldn't process that. Please try again.",
+        timestamp: Date.now(),
+        status: "failed",
+        source: "system",
+      });
+    } finally {
+      if (this.activeTurn === turn) {
+        this.activeTurn = null;
+      }
+      this.callbacks.setActivity([]);
+      if (timing) this.latency?.finish(timing);
+    }
+  }
+}
@@ -1,10 +1,74 @@
+import { LiveAvatarSession, SessionConfig } from "@heygen/liveavatar-web-sdk";
+
+// Builds the avatar session, swapped for a fake when running without HeyGen
+export type LiveAvatarSessionFactory = (
+  sessionAccessToken: string,
+  config: SessionConfig
+) => LiveAvatarSession;
+
 export enum MessageSender {
   USER = "user",
   AVATAR = "avatar",
 }
 
+// One collapsible line in the agent activity list (a tool call or a block of reasoning)
+export interface AgentActivityEntry {
+  id: string;
+  kind: "tool" | "thinking";
+  title: string;
+  status: "running" | "done" | "error";
+  details: string;
+}
+
+/**
+ * Where a message is in its life:
+ * - pending: the turn is sent, nothing back yet (or a user turn waiting in the outbox)
+ * - streaming: the agent is working on the reply
+ * - completed / failed: done, one way or the other
+ * - cancelled: interrupted before it finished
+ */
+export type MessageStatus = "pending" | "streaming" | "completed" | "failed" | "cancelled";
+
+// How the turn came in (replies carry their turn's source) - "system" for
+// messages the app adds itself (intro, errors)
+export type MessageSource = "voice" | "typed" | "system";
+
+// Milliseconds from the user's turn being sent
+export interface MessageLatency {
+  // First sign of life from the agent (tool call, reasoning or reply text)
+  firstEventMs?: number;
+  // First sentence handed to the avatar
+  firstSpeechMs?: number;
+  // Reply complete
+  totalMs?: number;
+}
+
+export interface MessageAttachment {
+  id: string;
+  name: string;
+  mimeType?: string;
+  url?: string;
+  size?: number;
+}
+
 export interface LiveAvatarSessionMessage {
+  id: string;
   sender: MessageSender;
   message: string;
   timestamp: number;
+  status: MessageStatus;
+  source?: MessageSource;
+  // Tool calls and reasoning the agent went through to produce this reply
+  activity?: AgentActivityEntry[];
+  // User turns typed or spoken while the gateway was down
+  outboxId?: string;
+  delivery?: "queued" | "sent" | "failed";
+  // Loaded from the gateway's session history when the chat opened
+  fromHistory?: boolean;
+  // Agent run that produced this reply
+  runId?: string;
+  // What the avatar said for this reply (the TTS summary, not the full text)
+  spokenText?: string;
+  latency?: MessageLatency;
+  attachments?: MessageAttachment[];
 }
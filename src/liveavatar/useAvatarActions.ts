@@ -1,8 +1,9 @@
 import { useCallback } from "react";
 import { useLiveAvatarContext } from "./context";
+import { applyLexicon } from "./lexicon";
 
 export const useAvatarActions = (mode: "FULL" | "CUSTOM") => {
-  const { sessionRef } = useLiveAvatarContext();
+  const { sessionRef, lexicon } = useLiveAvatarContext();
 
   const interrupt = useCallback(() => {
     return sessionRef.current.interrupt();
@@ -11,17 +12,17 @@ export const useAvatarActions = (mode: "FULL" | "CUSTOM") => {
   const repeat = useCallback(
     async (message: string) => {
       if (mode === "FULL") {
-        return sessionRef.current.repeat(message);
+        return sessionRef.current.repeat(applyLexicon(message, lexicon));
       } else if (mode === "CUSTOM") {
         const res = await fetch("/api/elevenlabs-text-to-speech", {
           method: "POST",
-          body: JSON.stringify({ text: message }),
+          body: JSON.stringify({ text: applyLexicon(message, lexicon) }),
         });
         const { audio } = await res.json();
         return sessionRef.current.repeatAudio(audio);
       }
     },
-    [sessionRef, mode],
+    [sessionRef, mode, lexicon],
   );
 
   const startListening = useCallback(() => {
@@ -5,3 +5,12 @@ export const useChatHistory = () => {
 
   return messages;
 };
+
+/**
+ * The chat messages along with adding and updating them in place
+ */
+export const useChatMessages = () => {
+  const { messages, addMessage, updateMessage } = useLiveAvatarContext();
+
+  return { messages, addMessage, updateMessage };
+};
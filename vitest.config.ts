@@ -0,0 +1,11 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  // tsconfig keeps JSX for Next to compile
+  esbuild: {
+    jsx: "automatic",
+  },
+  test: {
+    include: ["src/**/*.test.{ts,tsx}"],
+  },
+});